@@ -0,0 +1,107 @@
+import type { RefreshError, Refresher } from './refresher';
+import type { AudienceConfig, TokenPair } from './types';
+import { createUrlScope } from './urlScope';
+
+/**
+ * In-memory access token of one audience
+ */
+export interface AudienceTokenStore {
+  getAccessToken: () => string | null;
+  setAccessToken: (token: string, expiresAt?: number) => void;
+}
+
+/**
+ * Access token and refresh of the audience a URL belongs to
+ */
+export interface AudienceTokenSource {
+  audience: string;
+  getAccessToken: () => string | null;
+  getExpiresAt: () => number | null;
+  refresh: () => Promise<TokenPair>;
+}
+
+/**
+ * Configuration for audience tokens
+ */
+interface AudienceTokensConfig {
+  audiences: Record<string, AudienceConfig>;
+  createRefresher: (audience: string, store: AudienceTokenStore) => Refresher;
+}
+
+/**
+ * Audience tokens instance
+ */
+export interface AudienceTokens {
+  /**
+   * Find the audience of a URL (null if it uses the main access token)
+   */
+  resolve: (url: string) => AudienceTokenSource | null;
+
+  /**
+   * Forget the access tokens of every audience
+   */
+  clear: () => void;
+
+  /**
+   * Cancel the refreshes in progress of every audience
+   */
+  cancel: (error: RefreshError) => void;
+}
+
+/**
+ * Create audience tokens: access tokens for other resource servers, kept in memory
+ * and refreshed with the shared refresh token
+ * Each audience has its own refresher, so refreshes are deduplicated per audience
+ *
+ * @param config - Audiences and a factory for their refreshers
+ * @returns AudienceTokens instance
+ */
+export function createAudienceTokens(config: AudienceTokensConfig): AudienceTokens {
+  const { audiences, createRefresher } = config;
+
+  const accessTokens = new Map<string, { token: string; expiresAt?: number }>();
+  const sources = new Map<string, AudienceTokenSource>();
+  const refreshers = new Map<string, Refresher>();
+
+  // URL matchers of each audience, in configuration order
+  const matchers = Object.entries(audiences).map(([audience, { urls }]) => ({
+    audience,
+    matches: createUrlScope({ allow: urls }),
+  }));
+
+  // Create the refresher of an audience on first use
+  const getSource = (audience: string): AudienceTokenSource => {
+    const existing = sources.get(audience);
+    if (existing) return existing;
+
+    const getAccessToken = (): string | null => accessTokens.get(audience)?.token ?? null;
+    const getExpiresAt = (): number | null => accessTokens.get(audience)?.expiresAt ?? null;
+    const refresher = createRefresher(audience, {
+      getAccessToken,
+      setAccessToken: (token, expiresAt) => accessTokens.set(audience, { token, expiresAt }),
+    });
+
+    const source: AudienceTokenSource = {
+      audience,
+      getAccessToken,
+      getExpiresAt,
+      refresh: refresher.refresh,
+    };
+    sources.set(audience, source);
+    refreshers.set(audience, refresher);
+    return source;
+  };
+
+  return {
+    resolve: (url) => {
+      const match = matchers.find(({ matches }) => matches(url));
+      return match ? getSource(match.audience) : null;
+    },
+    clear: () => {
+      accessTokens.clear();
+    },
+    cancel: (error) => {
+      refreshers.forEach((refresher) => refresher.cancel(error));
+    },
+  };
+}
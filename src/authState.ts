@@ -0,0 +1,119 @@
+import type { AuthState, AuthStateListener, RetokenInstance } from './types';
+
+/**
+ * Configuration for the auth state store
+ */
+interface AuthStateStoreConfig {
+  online: boolean;
+}
+
+/**
+ * Auth state store instance
+ */
+export interface AuthStateStore {
+  getState: () => AuthState;
+  getStatus: () => Exclude<AuthState, 'offline'>;
+  subscribe: (listener: AuthStateListener) => () => void;
+  setStatus: (status: Exclude<AuthState, 'offline'>) => void;
+  setOnline: (online: boolean) => void;
+  destroy: () => void;
+}
+
+/**
+ * Create a store that tracks the auth state and notifies listeners when it changes
+ *
+ * The network state is kept separately from the token status: while offline the
+ * state is `offline`, and the latest token status is restored once back online.
+ *
+ * @param config - Configuration for the store
+ * @returns AuthStateStore instance
+ */
+export function createAuthStateStore(config: AuthStateStoreConfig): AuthStateStore {
+  let status: Exclude<AuthState, 'offline'> = 'idle';
+  let online = config.online;
+  const listeners = new Set<AuthStateListener>();
+
+  const getState = (): AuthState => (online ? status : 'offline');
+
+  // Apply a change and notify listeners if the visible state changed
+  const update = (change: () => void): void => {
+    const previous = getState();
+    change();
+    const state = getState();
+    if (state === previous) return;
+
+    for (const listener of [...listeners]) {
+      listener(state, previous);
+    }
+  };
+
+  return {
+    getState,
+    getStatus: () => status,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    setStatus: (next) => {
+      update(() => {
+        status = next;
+      });
+    },
+    setOnline: (next) => {
+      update(() => {
+        online = next;
+      });
+    },
+    destroy: () => listeners.clear(),
+  };
+}
+
+/**
+ * Subscribe to whether the user is authenticated
+ *
+ * A refresh in progress and a lost network keep the previous value - the stored token
+ * remains until a refresh fails. Subscribed in one of those states, the stored token decides.
+ * The listener receives the current value immediately and on every change.
+ *
+ * @param retoken - Retoken instance to observe
+ * @param listener - Called with whether the user is authenticated
+ * @returns Unsubscribe function
+ */
+export function subscribeIsAuthenticated(
+  retoken: Pick<RetokenInstance, 'getState' | 'subscribe' | 'getAccessToken'>,
+  listener: (authenticated: boolean) => void
+): () => void {
+  const isPending = (state: AuthState): boolean => state === 'refreshing' || state === 'offline';
+
+  let current = retoken.getState() === 'authenticated';
+  // Set once a state other than refreshing/offline decides the value
+  let settled = !isPending(retoken.getState());
+  listener(current);
+
+  const update = (next: boolean): void => {
+    if (next === current) return;
+    current = next;
+    listener(next);
+  };
+
+  const unsubscribe = retoken.subscribe((state) => {
+    if (isPending(state)) return;
+    settled = true;
+    update(state === 'authenticated');
+  });
+
+  if (!settled) {
+    retoken
+      .getAccessToken()
+      .then((token) => {
+        if (token && !settled) update(true);
+      })
+      .catch(() => {
+        // Token could not be read - not authenticated
+      });
+  }
+
+  return unsubscribe;
+}
@@ -0,0 +1,71 @@
+import { isAxiosError } from 'axios';
+import type { AxiosInstance } from 'axios';
+import { createRequestHooks } from './requestHooks';
+import type { RetokenInstance } from './types';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /**
+     * Skip proactive token refresh for this request
+     * @default false
+     */
+    skipProactiveRefresh?: boolean;
+
+    /**
+     * Skip refresh + retry on retryStatuses for this request
+     * @default false
+     */
+    skipRetry?: boolean;
+
+    /**
+     * Send this request without the access token (also skips refresh and retry)
+     * @default false
+     */
+    skipAuth?: boolean;
+  }
+}
+
+/**
+ * Install interceptors that add the Authorization header, refresh proactively and
+ * retry on `retryStatuses`, using the refresh logic of a retoken instance
+ *
+ * @param axios - Axios instance to install the interceptors on
+ * @param retoken - Retoken instance that owns refresh and token storage
+ * @returns Function that removes the interceptors
+ *
+ * @example
+ * ```typescript
+ * const api = axios.create({ baseURL: '/api' });
+ * const detach = attachRetoken(api, retoken);
+ * ```
+ */
+export function attachRetoken(axios: AxiosInstance, retoken: RetokenInstance): () => void {
+  const hooks = createRequestHooks(retoken);
+
+  const requestInterceptor = axios.interceptors.request.use(async (config) => {
+    const auth = await hooks.beforeRequest(axios.getUri(config), config);
+    for (const [name, value] of Object.entries(auth.headers)) {
+      config.headers.set(name, value);
+    }
+    if (Object.keys(auth.query).length > 0) {
+      config.params = { ...(config.params as Record<string, unknown>), ...auth.query };
+    }
+    return config;
+  });
+
+  const responseInterceptor = axios.interceptors.response.use(undefined, async (error) => {
+    const { config, response } = isAxiosError(error) ? error : {};
+
+    // Retry once with the new token (the retry is sent with skipRetry)
+    if (config && response && (await hooks.afterResponse(response, axios.getUri(config), config))) {
+      return axios.request({ ...config, skipRetry: true });
+    }
+
+    throw error;
+  });
+
+  return () => {
+    axios.interceptors.request.eject(requestInterceptor);
+    axios.interceptors.response.eject(responseInterceptor);
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * Request body prepared for the retry after a token refresh
+ */
+export interface ReplayableBody {
+  /**
+   * Body to send (a buffered copy of a stream that fit within the limit)
+   */
+  body: BodyInit | null | undefined;
+
+  /**
+   * Whether the body can be sent again
+   */
+  replayable: boolean;
+}
+
+/**
+ * Continue a partially read stream, starting with the chunks already read
+ */
+function resumeStream(
+  chunks: Uint8Array[],
+  reader: ReadableStreamDefaultReader<Uint8Array>
+): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    start: (controller) => {
+      for (const chunk of chunks) {
+        controller.enqueue(chunk);
+      }
+    },
+    pull: async (controller) => {
+      const { done, value } = await reader.read();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    cancel: (reason) => reader.cancel(reason),
+  });
+}
+
+/**
+ * Make a request body replayable
+ * Strings, buffers, blobs, URLSearchParams and FormData can be sent again as they are;
+ * streams are buffered up to `limit` bytes and sent as a stream (not replayable) beyond it
+ *
+ * @param body - Request body
+ * @param limit - Largest stream, in bytes, to buffer
+ * @returns Body to send and whether it can be sent again
+ */
+export async function bufferBody(
+  body: BodyInit | null | undefined,
+  limit: number
+): Promise<ReplayableBody> {
+  if (!(body instanceof ReadableStream)) {
+    return { body, replayable: true };
+  }
+
+  const reader = (body as ReadableStream<Uint8Array>).getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return { body: new Blob(chunks as BlobPart[]), replayable: true };
+    }
+
+    chunks.push(value);
+    size += value.byteLength;
+    if (size > limit) {
+      return { body: resumeStream(chunks, reader), replayable: false };
+    }
+  }
+}
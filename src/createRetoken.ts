@@ -4,11 +4,40 @@ import type {
   RetokenFetchOptions,
   RetokenFetchJsonOptions,
   TokenPair,
+  TokenStorage,
+  RetokenRequest,
+  RetokenEventMap,
+  RequestAuth,
+  LogoutReason,
 } from './types';
 import { isTokenExpiringSoon, parseTokenExpiration } from './jwt';
 import { createCrossTabSync } from './crossTab';
 import type { CrossTabSync } from './crossTab';
-import { createRefresher, FetchError } from './refresher';
+import { createLeaderElector, createTabId } from './leaderElection';
+import type { LeaderElector } from './leaderElection';
+import { createWebLocksProvider } from './lock';
+import { createRefreshScheduler } from './scheduler';
+import { createBrowserEnvironment } from './environment';
+import type { RefreshScheduler } from './scheduler';
+import { composeMiddleware } from './middleware';
+import { createEventEmitter } from './events';
+import { createAuthStateStore } from './authState';
+import { createRequestHooks } from './requestHooks';
+import { createUrlScope } from './urlScope';
+import { createTokenPlacement, withQueryParams } from './tokenPlacement';
+import { createAudienceTokens } from './audiences';
+import { bufferBody } from './body';
+import { createRevoker } from './revocation';
+import { createSessionExpiryWarning } from './sessionExpiry';
+import type { SessionExpiryWarning } from './sessionExpiry';
+import {
+  createRefresher,
+  createRefreshQueue,
+  FetchError,
+  NonReplayableBodyError,
+  RefreshError,
+  toExpiresAt,
+} from './refresher';
 
 /**
  * Default configuration values
@@ -20,6 +49,11 @@ const DEFAULTS: {
   retryDelays: number[];
   skipOnClientError: boolean;
   crossTabChannelName: string;
+  crossTabRefreshTimeout: number;
+  leaderHeartbeatInterval: number;
+  leaderTimeout: number;
+  lockName: string;
+  retryBodyLimit: number;
 } = {
   expirationLeeway: 60,
   retryStatuses: [401],
@@ -27,8 +61,69 @@ const DEFAULTS: {
   retryDelays: [3000, 6000, 12000],
   skipOnClientError: true,
   crossTabChannelName: 'ts-retoken-auth',
+  crossTabRefreshTimeout: 30000,
+  leaderHeartbeatInterval: 2000,
+  leaderTimeout: 5000,
+  lockName: 'ts-retoken-refresh',
+  retryBodyLimit: 1024 * 1024,
 };
 
+/**
+ * Refresh started by another tab that this tab is waiting on
+ */
+interface RemoteRefresh {
+  promise: Promise<TokenPair>;
+  settle: (result: Promise<TokenPair>) => void;
+}
+
+/**
+ * Resolve token callbacks, preferring individual callbacks over the storage adapter
+ * Throws if neither provides the required callbacks
+ */
+function resolveTokenStorage(
+  config: Pick<RetokenConfig, 'storage' | keyof TokenStorage>
+): TokenStorage {
+  const { storage } = config;
+
+  const getAccessToken = config.getAccessToken ?? storage?.getAccessToken;
+  const setTokens = config.setTokens ?? storage?.setTokens;
+  const clearTokens = config.clearTokens ?? storage?.clearTokens;
+
+  if (!getAccessToken || !setTokens || !clearTokens) {
+    throw new Error(
+      'createRetoken requires either storage or getAccessToken, setTokens and clearTokens'
+    );
+  }
+
+  return {
+    getAccessToken,
+    getRefreshToken: config.getRefreshToken ?? storage?.getRefreshToken,
+    getExpiresAt: config.getExpiresAt ?? storage?.getExpiresAt,
+    getRefreshExpiresAt: config.getRefreshExpiresAt ?? storage?.getRefreshExpiresAt,
+    setTokens,
+    clearTokens,
+  };
+}
+
+/**
+ * Fetch options carried by a Request
+ */
+function requestInitOf(request: Request): RequestInit {
+  return {
+    method: request.method,
+    body: request.body,
+    signal: request.signal,
+    credentials: request.credentials,
+    cache: request.cache,
+    redirect: request.redirect,
+    referrer: request.referrer,
+    referrerPolicy: request.referrerPolicy,
+    integrity: request.integrity,
+    keepalive: request.keepalive,
+    mode: request.mode,
+  };
+}
+
 /**
  * Create a configured retoken instance for managing token refresh
  *
@@ -55,6 +150,12 @@ const DEFAULTS: {
  *   clearTokens: () => localStorage.clear(),
  * });
  *
+ * // Or with a storage adapter
+ * const retoken = createRetoken({
+ *   refreshEndpoint: { ... },
+ *   storage: createLocalStorage(),
+ * });
+ *
  * // Use the fetch wrapper
  * const response = await retoken.fetch('/api/users/me');
  * ```
@@ -65,108 +166,569 @@ export function createRetoken<TResponse = unknown>(
   // Destructure config with defaults
   const {
     refreshEndpoint,
-    getAccessToken,
-    getRefreshToken,
-    setTokens,
-    clearTokens,
+    revocationEndpoint,
     expirationLeeway = DEFAULTS.expirationLeeway,
     retryStatuses = DEFAULTS.retryStatuses,
     refreshFailureStatuses = DEFAULTS.refreshFailureStatuses,
     retry = {},
     crossTab = { enabled: false },
+    lock = { enabled: false },
+    backgroundRefresh = { enabled: false },
+    environment = createBrowserEnvironment(),
+    middleware = [],
+    tokenPlacement,
+    audiences = {},
+    urlScope,
+    retryBodyLimit = DEFAULTS.retryBodyLimit,
+    fetch: fetchRequest = (input, init) => globalThis.fetch(input, init),
+    sessionExpiryWarning,
     onAuthFailure,
     onTokenRefresh,
+    onLogout,
   } = config;
 
+  // Resolve token callbacks from the storage adapter and/or individual callbacks
+  const {
+    getAccessToken,
+    getRefreshToken,
+    getExpiresAt,
+    getRefreshExpiresAt: getStoredRefreshExpiresAt,
+    setTokens,
+    clearTokens,
+  } = resolveTokenStorage(config);
+
+  // Where and to which URLs the access token is sent
+  const placeToken = createTokenPlacement(tokenPlacement);
+  const isUrlInScope = createUrlScope(urlScope);
+
   // Merge retry config with defaults
   const retryDelays = retry.delays ?? DEFAULTS.retryDelays;
   const skipOnClientError = retry.skipOnClientError ?? DEFAULTS.skipOnClientError;
 
+  // Auth lifecycle events
+  const events = createEventEmitter<RetokenEventMap>();
+
+  // Observable auth state (assumed online without an environment source)
+  const authState = createAuthStateStore({ online: environment?.isOnline() ?? true });
+
+  // Background refresh scheduled ahead of token expiry (created below if enabled)
+  let scheduler: RefreshScheduler | null = null;
+
+  // Expiration of the refresh token: its JWT exp claim, or the stored refreshExpiresAt
+  const getRefreshExpiresAt = async (): Promise<number | null> => {
+    const refreshToken = await getRefreshToken?.();
+    const exp = refreshToken ? parseTokenExpiration(refreshToken) : null;
+    return exp ?? (await getStoredRefreshExpiresAt?.()) ?? null;
+  };
+
+  // Warning ahead of the end of the session (if configured)
+  const sessionExpiry: SessionExpiryWarning | null =
+    sessionExpiryWarning !== undefined
+      ? createSessionExpiryWarning({
+          getExpiresAt: getRefreshExpiresAt,
+          leadTime: sessionExpiryWarning,
+          onWarning: (expiresAt) => events.emit('sessionExpiring', { expiresAt }),
+        })
+      : null;
+
+  // Refresh in progress in another tab - adopt its result instead of refreshing here
+  let remoteRefresh: RemoteRefresh | null = null;
+
+  // Start waiting for another tab's refresh, falling back to a local refresh on timeout
+  const waitForRemoteRefresh = (timeout: number): void => {
+    if (remoteRefresh) return;
+
+    let resolve!: (result: Promise<TokenPair>) => void;
+    const promise = new Promise<TokenPair>((res) => {
+      resolve = res;
+    });
+    // Waiters handle the outcome; avoid unhandled rejections when nobody is waiting
+    promise.catch(() => {
+      // Intentionally empty
+    });
+
+    const timer = setTimeout(() => {
+      pending.settle(refresher.refresh());
+    }, timeout);
+
+    const pending: RemoteRefresh = {
+      promise,
+      settle: (result) => {
+        clearTimeout(timer);
+        if (remoteRefresh === pending) {
+          remoteRefresh = null;
+        }
+        resolve(result);
+      },
+    };
+    remoteRefresh = pending;
+  };
+
   // Initialize cross-tab sync if enabled
   let crossTabSync: CrossTabSync | null = null;
+  let leaderElector: LeaderElector | null = null;
   if (crossTab.enabled) {
+    const refreshTimeout = crossTab.refreshTimeout ?? DEFAULTS.crossTabRefreshTimeout;
+
     crossTabSync = createCrossTabSync({
       channelName: crossTab.channelName ?? DEFAULTS.crossTabChannelName,
-      onLogoutReceived: () => {
-        clearTokens();
-        onAuthFailure?.();
+      onLogoutReceived: (reason) => {
+        void handleRemoteLogout(reason);
+      },
+      onRefreshStartReceived: () => {
+        authState.setStatus('refreshing');
+        waitForRemoteRefresh(refreshTimeout);
+      },
+      onTokensRefreshedReceived: (tokens) => {
+        void adoptRemoteTokens(tokens);
       },
+      onLeaderMessageReceived: (message) => leaderElector?.handleMessage(message),
     });
   }
 
+  // Another tab logged out - clear tokens here too
+  const handleRemoteLogout = async (reason: LogoutReason): Promise<void> => {
+    scheduler?.cancel();
+    sessionExpiry?.cancel();
+    cancelRefreshes(new RefreshError('Logged out in another tab', 0));
+    try {
+      await clearAllTokens();
+    } finally {
+      authState.setStatus('unauthenticated');
+      events.emit('crossTabLogout', { reason });
+      if (reason === 'user') {
+        onLogout?.();
+      } else {
+        onAuthFailure?.();
+      }
+      remoteRefresh?.settle(Promise.reject(new RefreshError('Refresh failed in another tab', 0)));
+    }
+  };
+
+  // Another tab refreshed - store its tokens before releasing waiters
+  const adoptRemoteTokens = async (tokens: TokenPair): Promise<void> => {
+    try {
+      await setTokens(tokens);
+    } catch (error) {
+      remoteRefresh?.settle(Promise.reject(error as Error));
+      return;
+    }
+    authState.setStatus('authenticated');
+    events.emit('refreshSuccess', tokens);
+    onTokenRefresh?.(tokens);
+    rescheduleRefresh();
+    sessionExpiry?.schedule();
+    remoteRefresh?.settle(Promise.resolve(tokens));
+  };
+
+  // Resolve the refresh lock (falls back to no lock without the Web Locks API)
+  const lockProvider = lock.enabled ? (lock.provider ?? createWebLocksProvider()) : null;
+
+  // Clear the stored tokens and the access tokens of every audience
+  const clearAllTokens = async (): Promise<void> => {
+    audienceTokens.clear();
+    await clearTokens();
+  };
+
+  // The refresh token is invalid - log out in every tab
+  const handleAuthFailure = (error: RefreshError): void => {
+    scheduler?.cancel();
+    sessionExpiry?.cancel();
+    crossTabSync?.broadcastLogout();
+    authState.setStatus('unauthenticated');
+    events.emit('refreshFailure', error);
+    events.emit('logout', { reason: 'authFailure' });
+    onAuthFailure?.();
+  };
+
+  // Revokes the refresh token on logout (if configured)
+  const revoker = revocationEndpoint
+    ? createRevoker({ revocationEndpoint, fetch: fetchRequest })
+    : null;
+
+  // The user logged out - clear tokens in every tab, then revoke the refresh token
+  const logout = async (): Promise<void> => {
+    const refreshToken = (await getRefreshToken?.()) ?? undefined;
+
+    scheduler?.cancel();
+    sessionExpiry?.cancel();
+    cancelRefreshes(new RefreshError('Logged out', 0));
+    crossTabSync?.broadcastLogout('user');
+    try {
+      await clearAllTokens();
+    } finally {
+      authState.setStatus('unauthenticated');
+      events.emit('logout', { reason: 'user' });
+      onLogout?.();
+      remoteRefresh?.settle(Promise.reject(new RefreshError('Logged out', 0)));
+    }
+
+    // Nothing to revoke in localStorage mode without a refresh token
+    if (revoker && (refreshToken || !getRefreshToken)) {
+      await revoker.revoke(refreshToken ?? '');
+    }
+  };
+
+  // The user logged in - store the tokens, become authenticated and schedule refresh from them
+  const login = async (tokens: TokenPair): Promise<void> => {
+    // Audience tokens belong to the previous session
+    audienceTokens.clear();
+    await setTokens({
+      ...tokens,
+      expiresAt: toExpiresAt(tokens.expiresAt, tokens.expiresIn),
+      refreshExpiresAt: toExpiresAt(tokens.refreshExpiresAt, tokens.refreshExpiresIn),
+    });
+    authState.setStatus('authenticated');
+    rescheduleRefresh();
+    sessionExpiry?.schedule();
+  };
+
+  // Refreshes of the main and audience tokens run one at a time - they share the refresh token
+  const refreshQueue = createRefreshQueue();
+
   // Create the refresher with deduplication
   const refresher = createRefresher<TResponse>({
     refreshEndpoint,
+    getAccessToken,
     getRefreshToken,
+    getExpiresAt,
+    getRefreshExpiresAt,
     setTokens,
-    clearTokens,
+    clearTokens: clearAllTokens,
     retryDelays,
     skipOnClientError,
     refreshFailureStatuses,
-    onAuthFailure: () => {
-      crossTabSync?.broadcastLogout();
-      onAuthFailure?.();
+    fetch: fetchRequest,
+    onAuthFailure: handleAuthFailure,
+    onTokenRefresh: (tokens) => {
+      crossTabSync?.broadcastTokensRefreshed(tokens);
+      authState.setStatus('authenticated');
+      events.emit('refreshSuccess', tokens);
+      onTokenRefresh?.(tokens);
+      rescheduleRefresh();
+      sessionExpiry?.schedule();
     },
-    onTokenRefresh,
+    onRefreshStart: () => {
+      crossTabSync?.broadcastRefreshStart();
+      authState.setStatus('refreshing');
+      events.emit('refreshStart', undefined);
+    },
+    onRetry: (attempt, delay, error) => events.emit('refreshRetry', { attempt, delay, error }),
+    lock: lockProvider ? { provider: lockProvider, name: lock.name ?? DEFAULTS.lockName } : null,
+    environment,
+    queue: refreshQueue,
+  });
+
+  // Access tokens of other audiences, each refreshed with the shared refresh token
+  const audienceTokens = createAudienceTokens({
+    audiences,
+    createRefresher: (audience, store) =>
+      createRefresher<TResponse>({
+        refreshEndpoint,
+        audience,
+        getAccessToken: store.getAccessToken,
+        getRefreshToken,
+        getRefreshExpiresAt,
+        setTokens: async (tokens) => {
+          store.setAccessToken(tokens.accessToken, tokens.expiresAt);
+
+          // Keep a rotated refresh token, without touching the main access token
+          const refreshToken = (await getRefreshToken?.()) ?? undefined;
+          if (tokens.refreshToken && refreshToken && tokens.refreshToken !== refreshToken) {
+            await setTokens({
+              accessToken: (await getAccessToken()) ?? '',
+              refreshToken: tokens.refreshToken,
+              expiresAt: (await getExpiresAt?.()) ?? undefined,
+              refreshExpiresAt: tokens.refreshExpiresAt,
+            });
+          }
+        },
+        clearTokens: clearAllTokens,
+        retryDelays,
+        skipOnClientError,
+        refreshFailureStatuses,
+        fetch: fetchRequest,
+        onAuthFailure: handleAuthFailure,
+        // Same lock as the main refresh - the refresh token is shared
+        lock: lockProvider
+          ? { provider: lockProvider, name: lock.name ?? DEFAULTS.lockName }
+          : null,
+        environment,
+        queue: refreshQueue,
+      }),
   });
 
+  // Stop refreshes in progress (including waits for the network) without an auth failure
+  const cancelRefreshes = (error: RefreshError): void => {
+    refresher.cancel(error);
+    audienceTokens.cancel(error);
+  };
+
+  // Refresh tokens, joining another tab's in-flight refresh if there is one
+  const refreshTokens = (): Promise<TokenPair> => {
+    return remoteRefresh?.promise ?? refresher.refresh();
+  };
+
   // Check if current token is expiring soon
-  const checkTokenExpiringSoon = (): boolean => {
-    const token = getAccessToken();
-    return isTokenExpiringSoon(token, expirationLeeway);
+  const checkTokenExpiringSoon = async (): Promise<boolean> => {
+    const token = await getAccessToken();
+    return isTokenExpiringSoon(token, expirationLeeway, token ? await getExpiresAt?.() : null);
   };
 
-  // Build headers with current token
-  const buildHeaders = (customHeaders: Record<string, string> = {}): Headers => {
-    const headers = new Headers(customHeaders);
+  // Synchronous check, for token functions that are not async
+  const checkTokenExpiringSoonSync = (): boolean => {
     const token = getAccessToken();
-    if (token) {
-      headers.set('Authorization', `Bearer ${token}`);
+    const expiresAt = token && !(token instanceof Promise) ? getExpiresAt?.() : null;
+    if (token instanceof Promise || expiresAt instanceof Promise) {
+      throw new Error(
+        'isTokenExpiringSoon() requires synchronous token functions; use isTokenExpiringSoonAsync()'
+      );
+    }
+    return isTokenExpiringSoon(token, expirationLeeway, expiresAt);
+  };
+
+  // Refresh in the background if the current token is expiring soon
+  const refreshIfExpiringSoon = async (): Promise<void> => {
+    if (await checkTokenExpiringSoon()) {
+      await refreshTokens();
+    }
+  };
+
+  // Refresh without a request only for a token whose expiration is known - a logged-out tab
+  // or an opaque token without expiresAt would otherwise refresh (or fail) every time
+  const isDueForBackgroundRefresh = async (): Promise<boolean> => {
+    const token = await getAccessToken();
+    if (!token) return false;
+
+    const expiresAt = parseTokenExpiration(token) ?? (await getExpiresAt?.()) ?? null;
+    return expiresAt !== null && isTokenExpiringSoon(token, expirationLeeway, expiresAt);
+  };
+
+  const refreshInBackground = async (): Promise<void> => {
+    if (await isDueForBackgroundRefresh()) {
+      await refreshTokens();
     }
-    return headers;
   };
 
+  // Elect a leader tab to own proactive refresh (only when cross-tab sync is available)
+  const leaderElection = crossTab.leaderElection ?? { enabled: false };
+  if (crossTabSync && leaderElection.enabled) {
+    const sync = crossTabSync;
+    leaderElector = createLeaderElector({
+      tabId: createTabId(),
+      heartbeatInterval: leaderElection.heartbeatInterval ?? DEFAULTS.leaderHeartbeatInterval,
+      leaderTimeout: leaderElection.leaderTimeout ?? DEFAULTS.leaderTimeout,
+      postMessage: (message) => sync.postLeaderMessage(message),
+      onLeadershipChange: (leader) => {
+        if (leader) {
+          rescheduleRefresh();
+        } else {
+          scheduler?.cancel();
+        }
+      },
+      // Without backgroundRefresh, the leader checks the token on every heartbeat instead
+      onHeartbeat: () => {
+        if (scheduler) return;
+        refreshInBackground().catch(() => {
+          // Failures are handled by the refresher (auth failure + logout broadcast)
+        });
+      },
+    });
+  }
+
+  // Whether this tab owns proactive refresh
+  const isLeader = (): boolean => leaderElector?.isLeader() ?? true;
+
+  // Followers skip proactive refresh only while a leader tab is known
+  const followsLeader = (): boolean => {
+    return !!leaderElector && !leaderElector.isLeader() && leaderElector.getLeaderId() !== null;
+  };
+
+  // Network availability (assumed online without an environment source)
+  const isOnline = (): boolean => environment?.isOnline() ?? true;
+
+  // Background refresh is paused while offline or, if configured, while the page is hidden
+  const pauseWhenHidden = backgroundRefresh.pauseWhenHidden ?? true;
+  const isSchedulingActive = (): boolean => {
+    return isOnline() && (!pauseWhenHidden || (environment?.isVisible() ?? true));
+  };
+
+  // Schedule the next background refresh from the current token (leader tab only)
+  const rescheduleRefresh = (): void => {
+    if (isLeader() && isSchedulingActive()) {
+      scheduler?.schedule();
+    }
+  };
+
+  // Resume after the page becomes visible or the network returns
+  const resumeScheduling = async (): Promise<void> => {
+    if (!scheduler || !isLeader() || !isSchedulingActive()) return;
+
+    if (await isDueForBackgroundRefresh()) {
+      await refreshTokens();
+    } else {
+      scheduler.schedule();
+    }
+  };
+
+  if (backgroundRefresh.enabled) {
+    scheduler = createRefreshScheduler({
+      getAccessToken,
+      getExpiresAt,
+      expirationLeeway,
+      refresh: refreshTokens,
+    });
+    rescheduleRefresh();
+  }
+
+  sessionExpiry?.schedule();
+
+  // Track the network for the auth state and pause/resume background refresh
+  const unsubscribeEnvironment =
+    environment?.subscribe((event) => {
+      if (event === 'online' || event === 'offline') {
+        authState.setOnline(event === 'online');
+      }
+
+      if (!scheduler) return;
+
+      if (event === 'offline' || (event === 'hidden' && pauseWhenHidden)) {
+        scheduler.cancel();
+      } else {
+        resumeScheduling().catch(() => {
+          // Failures are handled by the refresher (auth failure + logout broadcast)
+        });
+      }
+    }) ?? null;
+
+  // A stored access token means the user is authenticated until a refresh says otherwise
+  Promise.resolve(getAccessToken())
+    .then((token) => {
+      if (token && authState.getStatus() === 'idle') {
+        authState.setStatus('authenticated');
+      }
+    })
+    .catch(() => {
+      // Token could not be read - state stays idle
+    });
+
+  // Current access token (null if none)
+  const readAccessToken = async (): Promise<string | null> => (await getAccessToken()) ?? null;
+
+  // Headers and query parameters that carry the access token (of the URL's audience)
+  const getRequestAuth = async (url?: string): Promise<RequestAuth> => {
+    const audience = url ? audienceTokens.resolve(url) : null;
+    return placeToken(audience ? audience.getAccessToken() : await readAccessToken());
+  };
+
+  // Proactive refresh if token is expiring soon (followers leave it to the leader tab)
+  // Skipped while offline - the request cannot succeed and refresh would wait for the network
+  // Audience tokens are kept per tab, so they are refreshed (or fetched if missing) here
+  const refreshBeforeRequest = async (url?: string): Promise<void> => {
+    const audience = url ? audienceTokens.resolve(url) : null;
+    if ((!audience && followsLeader()) || !isOnline()) return;
+
+    try {
+      if (!audience) {
+        await refreshIfExpiringSoon();
+      } else if (
+        isTokenExpiringSoon(audience.getAccessToken(), expirationLeeway, audience.getExpiresAt())
+      ) {
+        await audience.refresh();
+      }
+    } catch {
+      // If proactive refresh fails, still try the request
+      // It might succeed if the token isn't actually expired yet
+    }
+  };
+
+  // Refresh after a response with one of the retryStatuses
+  // Resolves true if the request should be retried with the new token
+  const refreshForRetry = async (status: number, url: string): Promise<boolean> => {
+    if (!retryStatuses.includes(status) || !isUrlInScope(url)) return false;
+
+    try {
+      await (audienceTokens.resolve(url)?.refresh() ?? refreshTokens());
+    } catch {
+      return false;
+    }
+
+    events.emit('requestRetried', { url, status });
+    return true;
+  };
+
+  // The steps run around every request, shared with other HTTP client adapters
+  const hooks = createRequestHooks({
+    getRequestAuth,
+    isUrlInScope,
+    refreshBeforeRequest,
+    refreshForRetry,
+  });
+
+  // Send requests through the middleware chain
+  const sendRequest = composeMiddleware(middleware, (request: RetokenRequest) => {
+    return fetchRequest(request.url, request.init);
+  });
+
   // Fetch wrapper with automatic token refresh
   const wrappedFetch = async (
-    url: string,
+    input: RequestInfo | URL,
     options: RetokenFetchOptions = {}
   ): Promise<Response> => {
     const {
       skipProactiveRefresh = false,
       skipRetry = false,
-      headers = {},
+      skipAuth = false,
+      headers,
       ...fetchOptions
     } = options;
 
-    // Proactive refresh if token is expiring soon
-    if (!skipProactiveRefresh && checkTokenExpiringSoon()) {
-      try {
-        await refresher.refresh();
-      } catch {
-        // If proactive refresh fails, still try the request
-        // It might succeed if the token isn't actually expired yet
+    // A Request carries the URL, headers and options; options passed alongside take precedence
+    const source = input instanceof Request ? input : null;
+    const url = input instanceof Request ? input.url : String(input);
+    const requestInit = source ? { ...requestInitOf(source), ...fetchOptions } : fetchOptions;
+
+    // Buffer streamed bodies so the retry can send them again
+    const { body, replayable } =
+      skipRetry || skipAuth
+        ? { body: requestInit.body, replayable: false }
+        : await bufferBody(requestInit.body, retryBodyLimit);
+    // Streams need half duplex to be sent as a request body
+    const init =
+      body instanceof ReadableStream
+        ? { ...requestInit, body, duplex: 'half' }
+        : { ...requestInit, body };
+
+    // Build the request with the current token (the retry skips proactive refresh)
+    const send = async (isRetry: boolean): Promise<Response> => {
+      const requestHeaders = new Headers(headers ?? source?.headers);
+      const auth = await hooks.beforeRequest(url, {
+        skipProactiveRefresh: skipProactiveRefresh || isRetry,
+        skipAuth,
+      });
+      for (const [name, value] of Object.entries(auth.headers)) {
+        requestHeaders.set(name, value);
       }
-    }
+
+      return sendRequest({
+        url: withQueryParams(url, auth.query),
+        init: { ...init, headers: requestHeaders },
+        isRetry,
+      });
+    };
 
     // Make the request
-    const response = await fetch(url, {
-      ...fetchOptions,
-      headers: buildHeaders(headers),
-    });
+    const response = await send(false);
 
-    // Check if we should retry with refresh
-    if (!skipRetry && retryStatuses.includes(response.status)) {
-      try {
-        await refresher.refresh();
-        // Retry with new token
-        return fetch(url, {
-          ...fetchOptions,
-          headers: buildHeaders(headers),
-        });
-      } catch {
-        // Refresh failed, return original response
-        return response;
+    // Retry with the new token, or return the original response if refresh failed
+    if (await hooks.afterResponse(response, url, { skipRetry, skipAuth })) {
+      if (!replayable) {
+        throw new NonReplayableBodyError(
+          `Request body cannot be sent again after token refresh (status ${response.status})`,
+          response
+        );
       }
+      return send(true);
     }
 
     return response;
@@ -174,12 +736,12 @@ export function createRetoken<TResponse = unknown>(
 
   // Type-safe fetch wrapper that returns parsed JSON
   const wrappedFetchJson = async <T>(
-    url: string,
+    input: RequestInfo | URL,
     options: RetokenFetchJsonOptions = {}
   ): Promise<T> => {
     const { expectedStatuses = [200, 201], ...fetchOptions } = options;
 
-    const response = await wrappedFetch(url, fetchOptions);
+    const response = await wrappedFetch(input, fetchOptions);
 
     // Check if status is expected
     if (!expectedStatuses.includes(response.status)) {
@@ -208,10 +770,34 @@ export function createRetoken<TResponse = unknown>(
   return {
     fetch: wrappedFetch,
     fetchJson: wrappedFetchJson,
-    refreshToken: (): Promise<TokenPair> => refresher.refresh(),
-    isTokenExpiringSoon: checkTokenExpiringSoon,
+    refreshToken: refreshTokens,
+    isTokenExpiringSoon: checkTokenExpiringSoonSync,
+    isTokenExpiringSoonAsync: checkTokenExpiringSoon,
+    getAccessToken: readAccessToken,
+    getRequestAuth,
+    isUrlInScope,
+    refreshBeforeRequest,
+    refreshForRetry,
     parseTokenExpiration,
+    isLeader,
+    getState: authState.getState,
+    subscribe: authState.subscribe,
+    on: events.on,
+    off: events.off,
+    login,
+    logout,
     broadcastLogout: () => crossTabSync?.broadcastLogout(),
-    destroy: () => crossTabSync?.destroy(),
+    destroy: () => {
+      const error = new RefreshError('Retoken instance destroyed', 0);
+      cancelRefreshes(error);
+      remoteRefresh?.settle(Promise.reject(error));
+      scheduler?.cancel();
+      sessionExpiry?.cancel();
+      unsubscribeEnvironment?.();
+      leaderElector?.destroy();
+      crossTabSync?.destroy();
+      events.clear();
+      authState.destroy();
+    },
   };
 }
@@ -1,25 +1,42 @@
+import type { LogoutReason, TokenPair } from './types';
+
 /**
  * Configuration for cross-tab sync
  */
 interface CrossTabSyncConfig {
   channelName: string;
-  onLogoutReceived: () => void;
+  onLogoutReceived: (reason: LogoutReason) => void;
+  onRefreshStartReceived?: () => void;
+  onTokensRefreshedReceived?: (tokens: TokenPair) => void;
+  onLeaderMessageReceived?: (message: LeaderMessage) => void;
 }
 
 /**
  * Cross-tab sync instance
  */
 export interface CrossTabSync {
-  broadcastLogout: () => void;
+  broadcastLogout: (reason?: LogoutReason) => void;
+  broadcastRefreshStart: () => void;
+  broadcastTokensRefreshed: (tokens: TokenPair) => void;
+  postLeaderMessage: (message: LeaderMessage) => void;
   destroy: () => void;
 }
 
+/**
+ * Leader election message types, sent over the same channel
+ */
+export type LeaderMessage =
+  | { type: 'LEADER_HEARTBEAT'; tabId: string }
+  | { type: 'LEADER_RESIGN'; tabId: string };
+
 /**
  * Auth message types for BroadcastChannel
  */
-interface AuthMessage {
-  type: 'LOGOUT';
-}
+type AuthMessage =
+  | { type: 'LOGOUT'; reason?: LogoutReason }
+  | { type: 'REFRESH_START' }
+  | { type: 'TOKENS_REFRESHED'; tokens: TokenPair }
+  | LeaderMessage;
 
 /**
  * Create a cross-tab synchronization instance using BroadcastChannel
@@ -34,18 +51,48 @@ export function createCrossTabSync(config: CrossTabSyncConfig): CrossTabSync | n
     return null;
   }
 
-  const { channelName, onLogoutReceived } = config;
+  const {
+    channelName,
+    onLogoutReceived,
+    onRefreshStartReceived,
+    onTokensRefreshedReceived,
+    onLeaderMessageReceived,
+  } = config;
   const channel = new BroadcastChannel(channelName);
 
-  channel.onmessage = (event: MessageEvent<AuthMessage>) => {
-    if (event.data?.type === 'LOGOUT') {
-      onLogoutReceived();
+  channel.onmessage = (event: MessageEvent<AuthMessage | null | undefined>) => {
+    const message = event.data;
+
+    switch (message?.type) {
+      case 'LOGOUT':
+        // Tabs without a reason in the message only log out on auth failure
+        onLogoutReceived(message.reason ?? 'authFailure');
+        break;
+      case 'REFRESH_START':
+        onRefreshStartReceived?.();
+        break;
+      case 'TOKENS_REFRESHED':
+        onTokensRefreshedReceived?.(message.tokens);
+        break;
+      case 'LEADER_HEARTBEAT':
+      case 'LEADER_RESIGN':
+        onLeaderMessageReceived?.(message);
+        break;
     }
   };
 
   return {
-    broadcastLogout: () => {
-      channel.postMessage({ type: 'LOGOUT' } satisfies AuthMessage);
+    broadcastLogout: (reason?: LogoutReason) => {
+      channel.postMessage({ type: 'LOGOUT', reason } satisfies AuthMessage);
+    },
+    broadcastRefreshStart: () => {
+      channel.postMessage({ type: 'REFRESH_START' } satisfies AuthMessage);
+    },
+    broadcastTokensRefreshed: (tokens: TokenPair) => {
+      channel.postMessage({ type: 'TOKENS_REFRESHED', tokens } satisfies AuthMessage);
+    },
+    postLeaderMessage: (message: LeaderMessage) => {
+      channel.postMessage(message satisfies AuthMessage);
     },
     destroy: () => {
       channel.close();
@@ -0,0 +1,97 @@
+/**
+ * Environment change events relevant to token refresh
+ */
+export type EnvironmentEvent = 'online' | 'offline' | 'visible' | 'hidden';
+
+/**
+ * Source of network and page visibility state
+ * Inject a custom source to control refresh behavior outside the browser (e.g. tests, Node.js)
+ */
+export interface EnvironmentSource {
+  /**
+   * Whether the network is currently available
+   */
+  isOnline: () => boolean;
+
+  /**
+   * Whether the page is currently visible
+   */
+  isVisible: () => boolean;
+
+  /**
+   * Subscribe to environment changes
+   * Returns a function that removes the listener
+   */
+  subscribe: (listener: (event: EnvironmentEvent) => void) => () => void;
+}
+
+/**
+ * Create an environment source from browser `online`/`offline` and `visibilitychange` events
+ * Returns null if window or document is not available (e.g., in Node.js or workers)
+ *
+ * @returns EnvironmentSource instance or null
+ */
+export function createBrowserEnvironment(): EnvironmentSource | null {
+  // Check if browser globals are available
+  if (typeof window === 'undefined' || typeof document === 'undefined') {
+    return null;
+  }
+
+  const isOnline = (): boolean => typeof navigator === 'undefined' || navigator.onLine !== false;
+  const isVisible = (): boolean => document.visibilityState !== 'hidden';
+
+  return {
+    isOnline,
+    isVisible,
+    subscribe: (listener) => {
+      const handleOnline = (): void => listener('online');
+      const handleOffline = (): void => listener('offline');
+      const handleVisibilityChange = (): void => listener(isVisible() ? 'visible' : 'hidden');
+
+      window.addEventListener('online', handleOnline);
+      window.addEventListener('offline', handleOffline);
+      document.addEventListener('visibilitychange', handleVisibilityChange);
+
+      return () => {
+        window.removeEventListener('online', handleOnline);
+        window.removeEventListener('offline', handleOffline);
+        document.removeEventListener('visibilitychange', handleVisibilityChange);
+      };
+    },
+  };
+}
+
+/**
+ * Wait until the environment reports the network as available
+ * Resolves immediately when already online; rejects with the signal's reason if it is
+ * aborted first
+ *
+ * @param environment - Environment source to observe
+ * @param signal - Signal that cancels the wait
+ */
+export function waitForOnline(environment: EnvironmentSource, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) {
+    return Promise.reject(signal.reason as Error);
+  }
+
+  if (environment.isOnline()) {
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve, reject) => {
+    const handleAbort = (): void => {
+      unsubscribe();
+      reject(signal?.reason as Error);
+    };
+
+    const unsubscribe = environment.subscribe((event) => {
+      if (event === 'online') {
+        unsubscribe();
+        signal?.removeEventListener('abort', handleAbort);
+        resolve();
+      }
+    });
+
+    signal?.addEventListener('abort', handleAbort, { once: true });
+  });
+}
@@ -0,0 +1,60 @@
+/**
+ * Event emitter instance
+ */
+export interface EventEmitter<TEvents> {
+  on: <K extends keyof TEvents>(event: K, listener: (payload: TEvents[K]) => void) => () => void;
+  off: <K extends keyof TEvents>(event: K, listener: (payload: TEvents[K]) => void) => void;
+  emit: <K extends keyof TEvents>(event: K, payload: TEvents[K]) => void;
+  clear: () => void;
+}
+
+/**
+ * Create a typed event emitter
+ *
+ * A listener that throws does not stop the other listeners or the caller;
+ * the error is rethrown asynchronously so it is still reported.
+ *
+ * @returns EventEmitter instance
+ */
+export function createEventEmitter<TEvents>(): EventEmitter<TEvents> {
+  const listeners = new Map<keyof TEvents, Set<(payload: never) => void>>();
+
+  const off = <K extends keyof TEvents>(
+    event: K,
+    listener: (payload: TEvents[K]) => void
+  ): void => {
+    listeners.get(event)?.delete(listener);
+  };
+
+  const on = <K extends keyof TEvents>(
+    event: K,
+    listener: (payload: TEvents[K]) => void
+  ): (() => void) => {
+    let set = listeners.get(event);
+    if (!set) {
+      set = new Set();
+      listeners.set(event, set);
+    }
+    set.add(listener);
+
+    return () => off(event, listener);
+  };
+
+  const emit = <K extends keyof TEvents>(event: K, payload: TEvents[K]): void => {
+    const set = listeners.get(event);
+    if (!set) return;
+
+    // Copy so listeners can unsubscribe while the event is dispatched
+    for (const listener of [...set] as ((payload: TEvents[K]) => void)[]) {
+      try {
+        listener(payload);
+      } catch (error) {
+        queueMicrotask(() => {
+          throw error;
+        });
+      }
+    }
+  };
+
+  return { on, off, emit, clear: () => listeners.clear() };
+}
@@ -2,27 +2,84 @@
 export { createRetoken } from './createRetoken';
 
 // Error classes
-export { RefreshError, FetchError } from './refresher';
+export { RefreshError, FetchError, NonReplayableBodyError, RevocationError } from './refresher';
 
 // JWT utilities (standalone usage)
 export { isTokenExpiringSoon, parseTokenExpiration } from './jwt';
 
+// Token storage adapters
+export {
+  createLocalStorage,
+  createSessionStorage,
+  createMemoryStorage,
+  createKeyValueStorage,
+} from './storage';
+export type { KeyValueStore, KeyValueStorageOptions, MemoryStorageOptions } from './storage';
+
+// Environment (network and page visibility)
+export { createBrowserEnvironment } from './environment';
+export type { EnvironmentSource, EnvironmentEvent } from './environment';
+
+// Refresh lock
+export { createWebLocksProvider } from './lock';
+export type { LockProvider } from './lock';
+
+// OAuth 2.0 refresh_token grant and token revocation
+export { createOAuthRefreshEndpoint, createOAuthRevocationEndpoint } from './oauth';
+export type {
+  OAuthRefreshEndpointOptions,
+  OAuthRevocationEndpointOptions,
+  OAuthTokenResponse,
+} from './oauth';
+
+// OpenID Connect discovery
+export { createOidcDiscovery } from './oidc';
+export type { OidcDiscovery, OidcDiscoveryOptions, OidcProviderMetadata } from './oidc';
+
+// Request hooks (other HTTP clients)
+export { createRequestHooks } from './requestHooks';
+export type { RequestHooks, RequestHookOptions } from './requestHooks';
+
 // Types - all exported for consumers
 export type {
   // Config types
   RetokenConfig,
   RefreshEndpointConfig,
+  RevocationEndpointConfig,
   RetryConfig,
   CrossTabConfig,
+  LeaderElectionConfig,
+  RefreshLockConfig,
+  BackgroundRefreshConfig,
   RetokenFetchOptions,
   RetokenFetchJsonOptions,
+  UrlScopeConfig,
+  UrlMatcher,
+  TokenPlacementConfig,
+  RequestAuth,
+  AudienceConfig,
+
+  // Middleware types
+  Middleware,
+  RetokenRequest,
 
   // Token types
   TokenPair,
   TokenGetter,
   RefreshTokenGetter,
+  TokenExpiryGetter,
   TokenSetter,
   TokenClearer,
+  TokenStorage,
+
+  // Event types
+  RetokenEventMap,
+  LogoutReason,
+  RetokenEventListener,
+
+  // Auth state types
+  AuthState,
+  AuthStateListener,
 
   // Instance type
   RetokenInstance,
@@ -52,12 +52,17 @@ export function parseTokenExpiration(token: string): number | null {
  *
  * @param token - JWT token string, or null
  * @param leewaySeconds - Seconds before expiration to consider "expiring soon"
- * @returns true if token is null, invalid, or expiring soon
+ * @param expiresAt - Expiration timestamp in milliseconds, used if the token has no exp claim
+ * @returns true if token is null, has no known expiration, or is expiring soon
  */
-export function isTokenExpiringSoon(token: string | null, leewaySeconds: number): boolean {
+export function isTokenExpiringSoon(
+  token: string | null,
+  leewaySeconds: number,
+  expiresAt?: number | null
+): boolean {
   if (!token) return true;
 
-  const exp = parseTokenExpiration(token);
+  const exp = parseTokenExpiration(token) ?? expiresAt ?? null;
   if (exp === null) return true;
 
   return Date.now() >= exp - leewaySeconds * 1000;
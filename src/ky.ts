@@ -0,0 +1,71 @@
+import ky from 'ky';
+import type { AfterResponseHook, BeforeRequestHook } from 'ky';
+import { createRequestHooks } from './requestHooks';
+import { withQueryParams } from './tokenPlacement';
+import type { RequestHookOptions } from './requestHooks';
+import type { RetokenInstance } from './types';
+
+/**
+ * ky hooks that add authentication to requests
+ */
+export interface KyRetokenHooks {
+  beforeRequest: BeforeRequestHook[];
+  afterResponse: AfterResponseHook[];
+}
+
+/**
+ * Create ky hooks that add the Authorization header, refresh proactively and
+ * retry once on `retryStatuses`, using the refresh logic of a retoken instance
+ *
+ * Set `skipProactiveRefresh`, `skipRetry` or `skipAuth` in the request `context` to opt out per request.
+ * The retry is sent with the default ky instance, without the hooks and retries of yours.
+ *
+ * @param retoken - Retoken instance that owns refresh and token storage
+ * @returns Hooks to pass to `ky.create` or `ky.extend`
+ *
+ * @example
+ * ```typescript
+ * const api = ky.create({ prefixUrl: '/api', hooks: createKyHooks(retoken) });
+ * await api.get('public', { context: { skipRetry: true } });
+ * ```
+ */
+export function createKyHooks(retoken: RetokenInstance): KyRetokenHooks {
+  const hooks = createRequestHooks(retoken);
+
+  const hookOptions = (context: Record<string, unknown>): RequestHookOptions => ({
+    skipProactiveRefresh: context.skipProactiveRefresh === true,
+    skipRetry: context.skipRetry === true,
+    skipAuth: context.skipAuth === true,
+  });
+
+  // Set the token on the request, replacing it if the token goes in the URL
+  const authorize = async (request: Request, options: RequestHookOptions): Promise<Request> => {
+    const auth = await hooks.beforeRequest(request.url, options);
+    for (const [name, value] of Object.entries(auth.headers)) {
+      request.headers.set(name, value);
+    }
+
+    const url = withQueryParams(request.url, auth.query);
+    return url === request.url ? request : new Request(url, request);
+  };
+
+  return {
+    beforeRequest: [
+      async (request, options) => {
+        const authorized = await authorize(request, hookOptions(options.context));
+        if (authorized !== request) return authorized;
+      },
+    ],
+    afterResponse: [
+      async (request, options, response) => {
+        if (!(await hooks.afterResponse(response, request.url, hookOptions(options.context)))) {
+          return;
+        }
+
+        // ky hands hooks an unused clone of the request, so it can be sent again
+        const retry = await authorize(request, { skipProactiveRefresh: true });
+        return ky(retry, { retry: 0, throwHttpErrors: false });
+      },
+    ],
+  };
+}
@@ -0,0 +1,121 @@
+import type { LeaderMessage } from './crossTab';
+
+/**
+ * Configuration for the leader elector
+ */
+interface LeaderElectorConfig {
+  tabId: string;
+  heartbeatInterval: number;
+  leaderTimeout: number;
+  postMessage: (message: LeaderMessage) => void;
+  onLeadershipChange?: (isLeader: boolean) => void;
+  onHeartbeat?: () => void;
+}
+
+/**
+ * Leader elector instance
+ */
+export interface LeaderElector {
+  isLeader: () => boolean;
+  getLeaderId: () => string | null;
+  handleMessage: (message: LeaderMessage) => void;
+  destroy: () => void;
+}
+
+/**
+ * Generate a random identifier for the current tab
+ */
+export function createTabId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Create a leader elector on top of a cross-tab message transport
+ *
+ * The leader sends a heartbeat every `heartbeatInterval` ms. Followers claim
+ * leadership when no heartbeat arrives within `leaderTimeout` ms or when the
+ * leader resigns. If two tabs claim at once, the lower tab id wins.
+ *
+ * @param config - Configuration for the leader elector
+ * @returns LeaderElector instance
+ */
+export function createLeaderElector(config: LeaderElectorConfig): LeaderElector {
+  const { tabId, heartbeatInterval, leaderTimeout, postMessage, onLeadershipChange, onHeartbeat } =
+    config;
+
+  let leader = false;
+  let leaderId: string | null = null;
+  let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  let electionTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Send a heartbeat and run leader duties
+  const heartbeat = (): void => {
+    postMessage({ type: 'LEADER_HEARTBEAT', tabId });
+    onHeartbeat?.();
+  };
+
+  // Restart the countdown after which a follower claims leadership
+  const resetElectionTimer = (): void => {
+    if (electionTimer) clearTimeout(electionTimer);
+    electionTimer = setTimeout(becomeLeader, leaderTimeout);
+  };
+
+  const becomeLeader = (): void => {
+    if (electionTimer) clearTimeout(electionTimer);
+    electionTimer = null;
+    leader = true;
+    leaderId = tabId;
+    heartbeatTimer = setInterval(heartbeat, heartbeatInterval);
+    onLeadershipChange?.(true);
+    heartbeat();
+  };
+
+  const becomeFollower = (newLeaderId: string): void => {
+    if (heartbeatTimer) clearInterval(heartbeatTimer);
+    heartbeatTimer = null;
+    leader = false;
+    leaderId = newLeaderId;
+    resetElectionTimer();
+    onLeadershipChange?.(false);
+  };
+
+  // Start as a follower and wait for an existing leader to announce itself
+  resetElectionTimer();
+
+  return {
+    isLeader: () => leader,
+    getLeaderId: () => leaderId,
+    handleMessage: (message: LeaderMessage) => {
+      if (message.tabId === tabId) return;
+
+      switch (message.type) {
+        case 'LEADER_HEARTBEAT':
+          if (!leader) {
+            leaderId = message.tabId;
+            resetElectionTimer();
+          } else if (message.tabId < tabId) {
+            // Another tab claimed leadership at the same time and wins the tie-break
+            becomeFollower(message.tabId);
+          }
+          break;
+        case 'LEADER_RESIGN':
+          if (!leader) {
+            becomeLeader();
+          }
+          break;
+      }
+    },
+    destroy: () => {
+      if (electionTimer) clearTimeout(electionTimer);
+      if (heartbeatTimer) clearInterval(heartbeatTimer);
+      electionTimer = null;
+      heartbeatTimer = null;
+      leaderId = null;
+
+      if (leader) {
+        leader = false;
+        postMessage({ type: 'LEADER_RESIGN', tabId });
+      }
+    },
+  };
+}
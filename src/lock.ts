@@ -0,0 +1,28 @@
+/**
+ * Provider for a named exclusive lock shared between browsing contexts
+ * The callback runs once the lock is held; the lock is released when it settles
+ */
+export interface LockProvider {
+  request: <T>(name: string, callback: () => Promise<T>) => Promise<T>;
+}
+
+/**
+ * Create a lock provider backed by the Web Locks API (navigator.locks)
+ * Returns null if the Web Locks API is not available (e.g., in Node.js or old browsers)
+ *
+ * @returns LockProvider instance or null
+ */
+export function createWebLocksProvider(): LockProvider | null {
+  // Check if the Web Locks API is available
+  if (typeof navigator === 'undefined' || !('locks' in navigator)) {
+    return null;
+  }
+
+  const { locks } = navigator;
+
+  return {
+    request: async <T>(name: string, callback: () => Promise<T>): Promise<T> => {
+      return await locks.request(name, callback);
+    },
+  };
+}
@@ -0,0 +1,24 @@
+import type { Middleware, RetokenRequest } from './types';
+
+/**
+ * Sends a request and resolves with its response
+ */
+export type RequestHandler = (request: RetokenRequest) => Promise<Response>;
+
+/**
+ * Compose middleware around a request handler
+ * The first middleware is the outermost: it sees the request first and the response last
+ *
+ * @param middleware - Middleware in the order they should run
+ * @param handler - Innermost handler that performs the request
+ * @returns Handler that runs the request through every middleware
+ */
+export function composeMiddleware(
+  middleware: readonly Middleware[],
+  handler: RequestHandler
+): RequestHandler {
+  return middleware.reduceRight<RequestHandler>(
+    (next, current) => (request) => current(request, next),
+    handler
+  );
+}
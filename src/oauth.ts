@@ -0,0 +1,262 @@
+import { createOidcDiscovery } from './oidc';
+import type { OidcDiscovery } from './oidc';
+import { RefreshError } from './refresher';
+import type { RefreshEndpointConfig, RevocationEndpointConfig } from './types';
+
+/**
+ * Options for the OAuth 2.0 refresh_token grant preset
+ */
+export interface OAuthRefreshEndpointOptions {
+  /**
+   * Token endpoint of the authorization server
+   * Required unless `issuer` is provided
+   * @example "https://auth.example.com/oauth/token"
+   */
+  url?: string;
+
+  /**
+   * OpenID Connect issuer (or a shared discovery) to read the token endpoint from
+   * Used when `url` is not provided; the discovery document is fetched on first refresh
+   * @example "https://auth.example.com/realms/app"
+   */
+  issuer?: string | OidcDiscovery;
+
+  /**
+   * Client identifier, sent as `client_id`
+   */
+  clientId: string;
+
+  /**
+   * Scope to request, sent as `scope` (arrays are joined with spaces)
+   * @default the scope of the original grant
+   */
+  scope?: string | string[];
+
+  /**
+   * Form parameter that carries the audience for `audiences`
+   * @default "resource" (RFC 8707)
+   */
+  audienceParam?: string;
+
+  /**
+   * Credentials mode for fetch
+   * @default "same-origin"
+   */
+  credentials?: RequestCredentials;
+
+  /**
+   * Additional headers to include in the token request
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Fetch implementation used for the token request (and discovery with `issuer`)
+   * @default the `fetch` option of RetokenConfig
+   */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Options for the OAuth 2.0 token revocation preset (RFC 7009)
+ */
+export interface OAuthRevocationEndpointOptions {
+  /**
+   * Revocation endpoint of the authorization server
+   * Required unless `issuer` is provided
+   * @example "https://auth.example.com/oauth/revoke"
+   */
+  url?: string;
+
+  /**
+   * OpenID Connect issuer (or a shared discovery) to read `revocation_endpoint` from
+   * Revocation is skipped if the issuer does not advertise one
+   */
+  issuer?: string | OidcDiscovery;
+
+  /**
+   * Client identifier, sent as `client_id`
+   */
+  clientId: string;
+
+  /**
+   * Credentials mode for fetch
+   * @default "same-origin"
+   */
+  credentials?: RequestCredentials;
+
+  /**
+   * Additional headers to include in the revocation request
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Fetch implementation used for the revocation request (and discovery with `issuer`)
+   * @default the `fetch` option of RetokenConfig
+   */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Successful token response (RFC 6749 section 5.1)
+ */
+export interface OAuthTokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in?: number;
+  refresh_token?: string;
+  /** Lifetime of the refresh token (Keycloak and others; not part of RFC 6749) */
+  refresh_expires_in?: number;
+  scope?: string;
+}
+
+/**
+ * Error response (RFC 6749 section 5.2)
+ */
+interface OAuthErrorResponse {
+  error: string;
+  error_description?: string;
+}
+
+/**
+ * OAuth error codes that no retry can fix - the user has to sign in again
+ */
+const TERMINAL_ERRORS = [
+  'invalid_request',
+  'invalid_client',
+  'invalid_grant',
+  'unauthorized_client',
+  'unsupported_grant_type',
+  'invalid_scope',
+];
+
+const isErrorResponse = (body: unknown): body is OAuthErrorResponse =>
+  typeof body === 'object' &&
+  body !== null &&
+  typeof (body as OAuthErrorResponse).error === 'string';
+
+/**
+ * Create a refresh endpoint for the OAuth 2.0 refresh_token grant
+ * Sends a form-encoded request and maps OAuth `error` codes to RefreshError codes
+ *
+ * @param options - Token endpoint and client options
+ * @returns RefreshEndpointConfig for `refreshEndpoint`
+ *
+ * @example
+ * ```typescript
+ * const retoken = createRetoken({
+ *   refreshEndpoint: createOAuthRefreshEndpoint({
+ *     url: 'https://auth.example.com/oauth/token',
+ *     clientId: 'my-app',
+ *     scope: ['openid', 'offline_access'],
+ *   }),
+ *   storage: createLocalStorage(),
+ * });
+ * ```
+ */
+export function createOAuthRefreshEndpoint(
+  options: OAuthRefreshEndpointOptions
+): RefreshEndpointConfig<OAuthTokenResponse> {
+  const {
+    url,
+    issuer,
+    clientId,
+    scope,
+    audienceParam = 'resource',
+    credentials,
+    headers,
+    fetch,
+  } = options;
+
+  // The discovery request uses the fetch the token request is sent with
+  const discovery = typeof issuer === 'string' ? createOidcDiscovery(issuer) : issuer;
+  const endpointUrl = url ?? discovery?.getTokenEndpoint;
+
+  if (!endpointUrl) {
+    throw new Error('createOAuthRefreshEndpoint requires either url or issuer');
+  }
+
+  return {
+    url: endpointUrl,
+    credentials,
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+      ...headers,
+    },
+    fetch,
+    buildBody: (refreshToken, audience) => {
+      const body = new URLSearchParams({ grant_type: 'refresh_token', client_id: clientId });
+      if (refreshToken) body.set('refresh_token', refreshToken);
+      if (scope) body.set('scope', Array.isArray(scope) ? scope.join(' ') : scope);
+      if (audience) body.set(audienceParam, audience);
+      return body;
+    },
+    parseResponse: (response) => ({
+      accessToken: response.access_token,
+      // Servers without rotation omit refresh_token - the current one is kept
+      refreshToken: response.refresh_token ?? '',
+      expiresIn: response.expires_in,
+      refreshExpiresIn: response.refresh_expires_in,
+    }),
+    parseError: async (response) => {
+      const body: unknown = await response.json().catch(() => null);
+      if (!isErrorResponse(body)) return undefined;
+
+      const detail = body.error_description
+        ? `${body.error}: ${body.error_description}`
+        : body.error;
+      return new RefreshError(`Refresh failed: ${detail}`, response.status, {
+        code: body.error,
+        terminal: TERMINAL_ERRORS.includes(body.error),
+      });
+    },
+  };
+}
+
+/**
+ * Create a revocation endpoint for OAuth 2.0 token revocation (RFC 7009)
+ * Sends the refresh token form-encoded with `token_type_hint=refresh_token`
+ *
+ * @param options - Revocation endpoint and client options
+ * @returns RevocationEndpointConfig for `revocationEndpoint`
+ *
+ * @example
+ * ```typescript
+ * const retoken = createRetoken({
+ *   refreshEndpoint: createOAuthRefreshEndpoint({ issuer, clientId: 'my-app' }),
+ *   revocationEndpoint: createOAuthRevocationEndpoint({ issuer, clientId: 'my-app' }),
+ *   storage: createLocalStorage(),
+ * });
+ *
+ * await retoken.logout();
+ * ```
+ */
+export function createOAuthRevocationEndpoint(
+  options: OAuthRevocationEndpointOptions
+): RevocationEndpointConfig {
+  const { url, issuer, clientId, credentials, headers, fetch } = options;
+
+  // The discovery request uses the fetch the revocation request is sent with
+  const discovery = typeof issuer === 'string' ? createOidcDiscovery(issuer) : issuer;
+  const endpointUrl = url ?? discovery?.getRevocationEndpoint;
+
+  if (!endpointUrl) {
+    throw new Error('createOAuthRevocationEndpoint requires either url or issuer');
+  }
+
+  return {
+    url: endpointUrl,
+    credentials,
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      ...headers,
+    },
+    fetch,
+    buildBody: (refreshToken) =>
+      new URLSearchParams({
+        token: refreshToken,
+        token_type_hint: 'refresh_token',
+        client_id: clientId,
+      }),
+  };
+}
@@ -0,0 +1,83 @@
+import type { FetchContext, FetchHook, FetchResponse } from 'ofetch';
+import { createRequestHooks } from './requestHooks';
+import type { RequestHookOptions } from './requestHooks';
+import type { RetokenInstance } from './types';
+
+/**
+ * ofetch options that add authentication to requests
+ */
+export interface OfetchRetokenOptions {
+  onRequest: FetchHook;
+  onResponseError: FetchHook<FetchContext & { response: FetchResponse<unknown> }>;
+}
+
+/**
+ * Fetch context of a request; requests sent again after a refresh are marked
+ * so they are not retried twice
+ */
+type RetokenFetchContext = FetchContext & { options: { retokenRetry?: boolean } };
+
+/**
+ * URL of a request, including the base URL that ofetch adds after `onRequest`
+ */
+function requestUrl(context: FetchContext): string {
+  const { request, options } = context;
+  const url = typeof request === 'string' ? request : request.url;
+  const base = options.baseURL;
+
+  if (!base || /^[a-z][a-z\d+\-.]*:/i.test(url) || url.startsWith(base)) return url;
+  return `${base.replace(/\/$/, '')}/${url.replace(/^\//, '')}`;
+}
+
+/**
+ * Create ofetch hooks that add the Authorization header, refresh proactively and
+ * retry once on `retryStatuses`, using the refresh logic of a retoken instance
+ *
+ * The retry goes through ofetch's own retry, so `onRequest` runs again with the new token.
+ *
+ * @param retoken - Retoken instance that owns refresh and token storage
+ * @param options - Options applied to every request
+ * @returns Options to pass to `ofetch.create`
+ *
+ * @example
+ * ```typescript
+ * const api = ofetch.create({ baseURL: '/api', ...createOfetchOptions(retoken) });
+ * ```
+ */
+export function createOfetchOptions(
+  retoken: RetokenInstance,
+  options: RequestHookOptions = {}
+): OfetchRetokenOptions {
+  const hooks = createRequestHooks(retoken);
+
+  return {
+    onRequest: async (context: RetokenFetchContext) => {
+      const auth = await hooks.beforeRequest(requestUrl(context), {
+        skipProactiveRefresh:
+          options.skipProactiveRefresh === true || context.options.retokenRetry === true,
+        skipAuth: options.skipAuth,
+      });
+      for (const [name, value] of Object.entries(auth.headers)) {
+        context.options.headers.set(name, value);
+      }
+      if (Object.keys(auth.query).length > 0) {
+        context.options.query = { ...context.options.query, ...auth.query };
+      }
+    },
+    onResponseError: async (
+      context: RetokenFetchContext & { response: FetchResponse<unknown> }
+    ) => {
+      const { response } = context;
+      const url = requestUrl(context);
+      const skipRetry = options.skipRetry === true || context.options.retokenRetry === true;
+
+      if (await hooks.afterResponse(response, url, { skipRetry, skipAuth: options.skipAuth })) {
+        // Let ofetch send the request once more, immediately
+        context.options.retry = 1;
+        context.options.retryDelay = 0;
+        context.options.retryStatusCodes = [response.status];
+        context.options.retokenRetry = true;
+      }
+    },
+  };
+}
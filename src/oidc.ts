@@ -0,0 +1,120 @@
+/**
+ * Provider metadata from the OpenID Connect discovery document
+ * Only the fields retoken uses are typed; the rest of the document is kept as is
+ */
+export interface OidcProviderMetadata {
+  issuer: string;
+  token_endpoint: string;
+  revocation_endpoint?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Options for OpenID Connect discovery
+ */
+export interface OidcDiscoveryOptions {
+  /**
+   * Fetch implementation used for the discovery request
+   * @default the fetch passed to getMetadata (the refresh or revocation fetch), or globalThis.fetch
+   */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Cached OpenID Connect discovery for one issuer
+ */
+export interface OidcDiscovery {
+  /**
+   * Issuer URL the discovery document is read from
+   */
+  issuer: string;
+
+  /**
+   * Fetch the discovery document on first use; later calls share the result
+   * A failed fetch is not cached, so the next call tries again
+   * `fetch` is used for the request unless the discovery was created with one
+   */
+  getMetadata: (fetch?: typeof globalThis.fetch) => Promise<OidcProviderMetadata>;
+
+  /**
+   * `token_endpoint` of the issuer (`fetch` as for getMetadata)
+   */
+  getTokenEndpoint: (fetch?: typeof globalThis.fetch) => Promise<string>;
+
+  /**
+   * `revocation_endpoint` of the issuer, or null if it does not advertise one
+   * (`fetch` as for getMetadata)
+   */
+  getRevocationEndpoint: (fetch?: typeof globalThis.fetch) => Promise<string | null>;
+}
+
+/**
+ * Create an OpenID Connect discovery for an issuer
+ * Reads `/.well-known/openid-configuration` once and caches the endpoints
+ *
+ * @param issuer - Issuer URL, e.g. "https://auth.example.com/realms/app"
+ * @param options - Discovery options
+ * @returns OidcDiscovery instance
+ *
+ * @example
+ * ```typescript
+ * const discovery = createOidcDiscovery('https://auth.example.com');
+ *
+ * const retoken = createRetoken({
+ *   refreshEndpoint: createOAuthRefreshEndpoint({ issuer: discovery, clientId: 'my-app' }),
+ *   storage: createLocalStorage(),
+ * });
+ * ```
+ */
+export function createOidcDiscovery(
+  issuer: string,
+  options: OidcDiscoveryOptions = {}
+): OidcDiscovery {
+  const { fetch: fetchDiscovery } = options;
+
+  // Issuers are compared without a trailing slash, as the discovery URL is built without one
+  const issuerUrl = issuer.replace(/\/+$/, '');
+  const discoveryUrl = `${issuerUrl}/.well-known/openid-configuration`;
+
+  let metadataPromise: Promise<OidcProviderMetadata> | null = null;
+
+  const fetchMetadata = async (
+    fetchRequest: typeof fetch = (input, init) => globalThis.fetch(input, init)
+  ): Promise<OidcProviderMetadata> => {
+    const response = await fetchRequest(discoveryUrl, { headers: { Accept: 'application/json' } });
+
+    if (!response.ok) {
+      throw new Error(`OIDC discovery failed: ${response.status}`);
+    }
+
+    const metadata = (await response.json()) as Partial<OidcProviderMetadata>;
+
+    // The document must belong to the issuer it was requested for (OpenID Connect Discovery 4.3)
+    if (typeof metadata.issuer !== 'string' || metadata.issuer.replace(/\/+$/, '') !== issuerUrl) {
+      throw new Error(`OIDC discovery issuer mismatch: expected ${issuer}, got ${metadata.issuer}`);
+    }
+
+    if (typeof metadata.token_endpoint !== 'string') {
+      throw new Error('OIDC discovery document has no token_endpoint');
+    }
+
+    return metadata as OidcProviderMetadata;
+  };
+
+  const getMetadata = (fetchRequest?: typeof fetch): Promise<OidcProviderMetadata> => {
+    metadataPromise ??= fetchMetadata(fetchDiscovery ?? fetchRequest).catch((error: unknown) => {
+      metadataPromise = null;
+      throw error;
+    });
+
+    return metadataPromise;
+  };
+
+  return {
+    issuer,
+    getMetadata,
+    getTokenEndpoint: async (fetchRequest) => (await getMetadata(fetchRequest)).token_endpoint,
+    getRevocationEndpoint: async (fetchRequest) =>
+      (await getMetadata(fetchRequest)).revocation_endpoint ?? null,
+  };
+}
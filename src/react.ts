@@ -0,0 +1,135 @@
+import {
+  createContext,
+  createElement,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from 'react';
+import type { ReactNode } from 'react';
+import { createRetoken } from './createRetoken';
+import type { AuthState, RetokenConfig, RetokenInstance } from './types';
+
+/**
+ * Props for RetokenProvider
+ * Pass either `config` (the provider creates and destroys the instance) or an
+ * existing `instance` (the caller owns its lifecycle)
+ */
+export type RetokenProviderProps<TResponse = unknown> = {
+  children?: ReactNode;
+} & (
+  | {
+      /**
+       * Configuration for an instance owned by the provider
+       * Read once on mount; remount the provider to apply a new configuration
+       */
+      config: RetokenConfig<TResponse>;
+      instance?: never;
+    }
+  | {
+      /**
+       * Existing instance to share; not destroyed on unmount
+       */
+      instance: RetokenInstance;
+      config?: never;
+    }
+);
+
+const RetokenContext = createContext<RetokenInstance | null>(null);
+
+// Instances created during render that no provider has committed yet
+// Lets a render that is invoked twice (React StrictMode) reuse one instance
+const uncommitted = new WeakMap<object, RetokenInstance>();
+
+/**
+ * Create an instance from `config` and destroy it on unmount
+ * Recreates the instance if the effect runs again after cleanup (React StrictMode)
+ */
+function useOwnedRetoken<TResponse>(
+  config: RetokenConfig<TResponse> | undefined
+): RetokenInstance | null {
+  const [instance, setInstance] = useState(() => {
+    if (!config) return null;
+
+    const created = uncommitted.get(config) ?? createRetoken(config);
+    uncommitted.set(config, created);
+    return created;
+  });
+  const destroyed = useRef(false);
+
+  useEffect(() => {
+    if (!instance || !config) return;
+
+    if (uncommitted.get(config) === instance) {
+      uncommitted.delete(config);
+    }
+
+    if (destroyed.current) {
+      destroyed.current = false;
+      setInstance(createRetoken(config));
+      return;
+    }
+
+    return () => {
+      destroyed.current = true;
+      instance.destroy();
+    };
+    // The configuration is read once on mount, so it is not a dependency
+  }, [instance]);
+
+  return instance;
+}
+
+/**
+ * Provide a retoken instance to the component tree
+ *
+ * @example
+ * ```typescript
+ * createElement(RetokenProvider, { config: { refreshEndpoint, storage } }, children);
+ * // or with JSX
+ * <RetokenProvider config={{ refreshEndpoint, storage }}>{children}</RetokenProvider>
+ * ```
+ */
+export function RetokenProvider<TResponse = unknown>(
+  props: RetokenProviderProps<TResponse>
+): ReactNode {
+  const owned = useOwnedRetoken(props.config);
+  const value = props.instance ?? owned;
+
+  return createElement(RetokenContext.Provider, { value }, props.children);
+}
+
+/**
+ * Get the retoken instance from the nearest RetokenProvider
+ * Throws if called outside a RetokenProvider
+ *
+ * @returns RetokenInstance
+ */
+export function useRetoken(): RetokenInstance {
+  const retoken = useContext(RetokenContext);
+  if (!retoken) {
+    throw new Error('useRetoken must be used within a RetokenProvider');
+  }
+  return retoken;
+}
+
+/**
+ * Get the current auth state, re-rendering when it changes
+ * (refresh start/end, logout in any tab, network changes)
+ *
+ * @returns Current AuthState
+ */
+export function useAuthState(): AuthState {
+  const retoken = useRetoken();
+  return useSyncExternalStore(retoken.subscribe, retoken.getState, retoken.getState);
+}
+
+/**
+ * Get the fetch wrapper of the retoken instance
+ *
+ * @returns Fetch function with automatic token refresh
+ */
+export function useAuthenticatedFetch(): RetokenInstance['fetch'] {
+  return useRetoken().fetch;
+}
@@ -1,6 +1,11 @@
+import { waitForOnline } from './environment';
+import type { EnvironmentSource } from './environment';
+import type { LockProvider } from './lock';
 import type {
   RefreshEndpointConfig,
+  TokenGetter,
   RefreshTokenGetter,
+  TokenExpiryGetter,
   TokenSetter,
   TokenClearer,
   TokenPair,
@@ -11,14 +16,24 @@ import type {
  */
 interface RefresherConfig<TResponse = unknown> {
   refreshEndpoint: RefreshEndpointConfig<TResponse>;
+  getAccessToken?: TokenGetter;
   getRefreshToken?: RefreshTokenGetter;
+  getExpiresAt?: TokenExpiryGetter;
+  getRefreshExpiresAt?: TokenExpiryGetter;
   setTokens: TokenSetter;
   clearTokens: TokenClearer;
   retryDelays: number[];
   skipOnClientError: boolean;
   refreshFailureStatuses: number[];
-  onAuthFailure?: () => void;
+  onAuthFailure?: (error: RefreshError) => void;
   onTokenRefresh?: (tokens: TokenPair) => void;
+  onRefreshStart?: () => void;
+  onRetry?: (attempt: number, delay: number, error: unknown) => void;
+  lock?: { provider: LockProvider; name: string } | null;
+  environment?: EnvironmentSource | null;
+  fetch?: typeof fetch;
+  audience?: string;
+  queue?: RefreshQueue;
 }
 
 /**
@@ -26,19 +41,53 @@ interface RefresherConfig<TResponse = unknown> {
  */
 export interface Refresher {
   refresh: () => Promise<TokenPair>;
+
+  /**
+   * Cancel the refresh in progress (including a wait for the network)
+   * It rejects with the given error, without clearing tokens or reporting an auth failure
+   */
+  cancel: (error: RefreshError) => void;
 }
 
+/**
+ * Runs refreshes one after another
+ */
+export type RefreshQueue = <T>(run: () => Promise<T>) => Promise<T>;
+
 /**
  * Custom error for refresh failures
- * Includes HTTP status code for error handling
+ * Includes HTTP status code for error handling, plus the server's error code
+ * (e.g. OAuth "invalid_grant") when `parseError` reports one
  */
 export class RefreshError extends Error {
   readonly status: number;
+  readonly code?: string;
+  readonly terminal: boolean;
 
-  constructor(message: string, status: number) {
+  constructor(
+    message: string,
+    status: number,
+    options: { code?: string; terminal?: boolean } = {}
+  ) {
     super(message);
     this.name = 'RefreshError';
     this.status = status;
+    this.code = options.code;
+    this.terminal = options.terminal ?? false;
+  }
+}
+
+/**
+ * Custom error for token revocation failures on logout
+ * Tokens were still cleared locally; status is 0 for network errors
+ */
+export class RevocationError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'RevocationError';
+    this.status = status;
   }
 }
 
@@ -58,6 +107,30 @@ export class FetchError extends Error {
   }
 }
 
+/**
+ * Custom error for a retry that cannot be sent
+ * Thrown when the token was refreshed after a retryStatuses response, but the
+ * request body was a stream too large to buffer, so the request is not sent again
+ */
+export class NonReplayableBodyError extends Error {
+  readonly status: number;
+  readonly response: Response;
+
+  constructor(message: string, response: Response) {
+    super(message);
+    this.name = 'NonReplayableBodyError';
+    this.status = response.status;
+    this.response = response;
+  }
+}
+
+/**
+ * Expiration timestamp from an absolute value or a lifetime in seconds
+ */
+export function toExpiresAt(expiresAt?: number, expiresIn?: number): number | undefined {
+  return expiresAt ?? (expiresIn !== undefined ? Date.now() + expiresIn * 1000 : undefined);
+}
+
 /**
  * Sleep utility for retry delays
  */
@@ -65,6 +138,23 @@ function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+/**
+ * Create a queue for refreshers that share a refresh token
+ * Each refresh starts after the previous one settled, so it reads a rotated refresh token
+ * instead of sending the one the previous refresh used up
+ *
+ * @returns RefreshQueue
+ */
+export function createRefreshQueue(): RefreshQueue {
+  let tail: Promise<unknown> = Promise.resolve();
+
+  return (run) => {
+    const result = tail.then(run, run);
+    tail = result.catch(() => undefined);
+    return result;
+  };
+}
+
 /**
  * Create a refresher instance with deduplication and retry logic
  *
@@ -76,7 +166,10 @@ export function createRefresher<TResponse = unknown>(
 ): Refresher {
   const {
     refreshEndpoint,
+    getAccessToken,
     getRefreshToken,
+    getExpiresAt,
+    getRefreshExpiresAt,
     setTokens,
     clearTokens,
     retryDelays,
@@ -84,19 +177,29 @@ export function createRefresher<TResponse = unknown>(
     refreshFailureStatuses,
     onAuthFailure,
     onTokenRefresh,
+    onRefreshStart,
+    onRetry,
+    lock,
+    environment,
+    fetch: fetchRequest = (input, init) => globalThis.fetch(input, init),
+    audience,
+    queue,
   } = config;
 
   // Request deduplication - only one refresh at a time
   let refreshPromise: Promise<TokenPair> | null = null;
 
+  // Aborted by cancel() - replaced so later refreshes are not affected
+  let controller = new AbortController();
+
   // Check if a status code indicates auth failure
   const isAuthFailureStatus = (status: number): boolean => {
     return refreshFailureStatuses.includes(status);
   };
 
-  // Default body builder for localStorage mode
-  const defaultBuildBody = (token: string): string => {
-    return JSON.stringify({ refresh_token: token });
+  // Default body builder for localStorage mode (and audiences)
+  const defaultBuildBody = (token: string, audience?: string): string => {
+    return JSON.stringify({ refresh_token: token || undefined, audience });
   };
 
   // Perform single refresh request
@@ -108,6 +211,8 @@ export function createRefresher<TResponse = unknown>(
       headers = {},
       buildBody = defaultBuildBody,
       parseResponse,
+      parseError,
+      fetch: fetchRefresh = fetchRequest,
     } = refreshEndpoint;
 
     // Build request options
@@ -120,15 +225,19 @@ export function createRefresher<TResponse = unknown>(
       },
     };
 
-    // Add body only if we have a refresh token (localStorage mode)
-    if (refreshToken) {
-      fetchOptions.body = buildBody(refreshToken);
+    // Add body only if we have a refresh token (localStorage mode) or an audience
+    if (refreshToken || audience) {
+      fetchOptions.body = buildBody(refreshToken ?? '', audience);
     }
 
-    const response = await fetch(url, fetchOptions);
+    const endpointUrl = typeof url === 'function' ? await url(fetchRefresh) : url;
+    const response = await fetchRefresh(endpointUrl, fetchOptions);
 
     if (!response.ok) {
-      throw new RefreshError(`Refresh failed: ${response.status}`, response.status);
+      throw (
+        (await parseError?.(response)) ??
+        new RefreshError(`Refresh failed: ${response.status}`, response.status)
+      );
     }
 
     const data = (await response.json()) as TResponse;
@@ -136,16 +245,35 @@ export function createRefresher<TResponse = unknown>(
   };
 
   // Perform refresh with retry logic
-  const performRefreshWithRetry = async (refreshToken?: string): Promise<TokenPair> => {
+  const performRefreshWithRetry = async (
+    signal: AbortSignal,
+    refreshToken?: string
+  ): Promise<TokenPair> => {
     for (let attempt = 0; attempt <= retryDelays.length; attempt++) {
+      signal.throwIfAborted();
+
+      // Defer attempts while offline instead of using up retries
+      if (environment) {
+        await waitForOnline(environment, signal);
+      }
+
       try {
         return await performRefresh(refreshToken);
       } catch (error) {
         // Check if this is an auth failure (don't retry)
-        if (error instanceof RefreshError && isAuthFailureStatus(error.status)) {
+        if (
+          error instanceof RefreshError &&
+          (error.terminal || isAuthFailureStatus(error.status))
+        ) {
           throw error;
         }
 
+        // Network dropped during the attempt - wait for it without counting the attempt
+        if (environment && !(error instanceof RefreshError) && !environment.isOnline()) {
+          attempt--;
+          continue;
+        }
+
         // Check if this is a client error (don't retry if configured)
         const isClientError =
           error instanceof RefreshError && error.status >= 400 && error.status < 500;
@@ -155,6 +283,7 @@ export function createRefresher<TResponse = unknown>(
         }
 
         // Wait before retry
+        onRetry?.(attempt + 1, retryDelays[attempt], error);
         await sleep(retryDelays[attempt]);
       }
     }
@@ -162,45 +291,161 @@ export function createRefresher<TResponse = unknown>(
     throw new RefreshError('Refresh failed after retries', 0);
   };
 
-  // Handle auth failure - clear tokens and notify
-  const handleAuthFailure = (): void => {
-    clearTokens();
-    onAuthFailure?.();
+  // Refresh and store the result, so a lock is only released once the new tokens are stored
+  const refreshAndStore = async (
+    signal: AbortSignal,
+    refreshToken: string | undefined,
+    refreshExpiresAt: number | null
+  ): Promise<TokenPair> => {
+    const refreshed = await performRefreshWithRetry(signal, refreshToken);
+
+    const tokens: TokenPair = {
+      ...refreshed,
+      // Keep the current refresh token (and its expiration) when the server did not rotate it
+      refreshToken: refreshed.refreshToken || (refreshToken ?? ''),
+      // Store lifetimes as timestamps so they stay correct after a reload
+      expiresAt: toExpiresAt(refreshed.expiresAt, refreshed.expiresIn),
+      refreshExpiresAt:
+        toExpiresAt(refreshed.refreshExpiresAt, refreshed.refreshExpiresIn) ??
+        (refreshed.refreshToken ? undefined : (refreshExpiresAt ?? undefined)),
+    };
+
+    // Logged out (or destroyed) while refreshing - the result must not be stored
+    signal.throwIfAborted();
+    await setTokens(tokens);
+    return tokens;
   };
 
-  // Main refresh function with deduplication
-  const refresh = async (): Promise<TokenPair> => {
-    // If already refreshing, return existing promise (deduplication)
-    if (refreshPromise) {
-      return refreshPromise;
+  // Refresh while holding the lock, reusing tokens another context rotated while we waited
+  const performRefreshWithLock = (
+    signal: AbortSignal,
+    provider: LockProvider,
+    name: string,
+    previousAccessToken: string | null,
+    previousRefreshToken: string | undefined
+  ): Promise<TokenPair> => {
+    return provider.request(name, async () => {
+      const accessToken = (await getAccessToken?.()) ?? null;
+      const refreshToken = (await getRefreshToken?.()) ?? undefined;
+
+      // Another context cleared the tokens (e.g. logged out) while we waited
+      if (getRefreshToken && !refreshToken) {
+        throw new RefreshError('No refresh token available', 0);
+      }
+
+      // Audience access tokens are only refreshed here, so a rotated refresh token (from a
+      // refresh of another audience or tab) does not mean this access token was replaced
+      const rotated =
+        (accessToken !== null && accessToken !== previousAccessToken) ||
+        (!audience && refreshToken !== previousRefreshToken);
+
+      const refreshExpiresAt = (await getRefreshExpiresAt?.()) ?? null;
+
+      // Already stored by the context that rotated them
+      if (rotated && accessToken !== null) {
+        return {
+          accessToken,
+          refreshToken: refreshToken ?? '',
+          expiresAt: (await getExpiresAt?.()) ?? undefined,
+          refreshExpiresAt: refreshExpiresAt ?? undefined,
+        };
+      }
+
+      return refreshAndStore(signal, refreshToken, refreshExpiresAt);
+    });
+  };
+
+  // Handle auth failure - clear tokens and notify
+  const handleAuthFailure = async (error: unknown): Promise<void> => {
+    try {
+      await clearTokens();
+    } finally {
+      onAuthFailure?.(
+        error instanceof RefreshError
+          ? error
+          : new RefreshError(error instanceof Error ? error.message : 'Refresh failed', 0)
+      );
     }
+  };
 
+  // Read the refresh token, run the refresh and store the result
+  const runRefresh = async (signal: AbortSignal): Promise<TokenPair> => {
     // Get refresh token if in localStorage mode
-    const refreshToken = getRefreshToken?.();
+    const refreshToken = (await getRefreshToken?.()) ?? undefined;
+    const refreshExpiresAt = (await getRefreshExpiresAt?.()) ?? null;
+
+    // Cancelled while queued behind another refresh - tokens cleared by logout are no auth failure
+    signal.throwIfAborted();
 
     // In localStorage mode, check if refresh token exists
     if (getRefreshToken && !refreshToken) {
-      handleAuthFailure();
-      throw new RefreshError('No refresh token available', 0);
+      const error = new RefreshError('No refresh token available', 0);
+      await handleAuthFailure(error);
+      throw error;
     }
 
-    // Create the refresh promise
-    refreshPromise = performRefreshWithRetry(refreshToken ?? undefined)
-      .then((tokens) => {
-        setTokens(tokens);
-        onTokenRefresh?.(tokens);
-        return tokens;
-      })
-      .catch((error) => {
-        handleAuthFailure();
-        throw error;
-      })
-      .finally(() => {
-        refreshPromise = null;
+    // An expired refresh token cannot succeed - fail without a network call
+    if (refreshExpiresAt !== null && Date.now() >= refreshExpiresAt) {
+      const error = new RefreshError('Refresh token expired', 0, {
+        code: 'refresh_token_expired',
+        terminal: true,
       });
+      await handleAuthFailure(error);
+      throw error;
+    }
+
+    onRefreshStart?.();
+
+    try {
+      // Serialize with other contexts through the lock if configured
+      const tokens = lock
+        ? await performRefreshWithLock(
+            signal,
+            lock.provider,
+            lock.name,
+            (await getAccessToken?.()) ?? null,
+            refreshToken
+          )
+        : await refreshAndStore(signal, refreshToken, refreshExpiresAt);
+
+      signal.throwIfAborted();
+      onTokenRefresh?.(tokens);
+      return tokens;
+    } catch (error) {
+      // Cancelled (e.g. logout or destroy) - the tokens are not ours to clear
+      if (!signal.aborted) {
+        await handleAuthFailure(error);
+      }
+      throw error;
+    }
+  };
+
+  // Main refresh function with deduplication
+  const refresh = (): Promise<TokenPair> => {
+    // If already refreshing, return existing promise (deduplication)
+    if (refreshPromise) {
+      return refreshPromise;
+    }
+
+    // Create the refresh promise, after other refreshes of the same refresh token
+    const { signal } = controller;
+    const run = (): Promise<TokenPair> => runRefresh(signal);
+    const promise = (queue ? queue(run) : run()).finally(() => {
+      if (refreshPromise === promise) {
+        refreshPromise = null;
+      }
+    });
+    refreshPromise = promise;
+
+    return promise;
+  };
 
-    return refreshPromise;
+  // Cancel the refresh in progress; the next refresh starts a new one
+  const cancel = (error: RefreshError): void => {
+    controller.abort(error);
+    controller = new AbortController();
+    refreshPromise = null;
   };
 
-  return { refresh };
+  return { refresh, cancel };
 }
@@ -0,0 +1,89 @@
+import type { RequestAuth, RetokenInstance } from './types';
+
+/**
+ * Per-request options understood by the request hooks
+ */
+export interface RequestHookOptions {
+  /**
+   * Skip proactive token refresh for this request
+   * @default false
+   */
+  skipProactiveRefresh?: boolean;
+
+  /**
+   * Skip refresh + retry on retryStatuses for this request
+   * @default false
+   */
+  skipRetry?: boolean;
+
+  /**
+   * Send this request without the access token (also skips refresh and retry)
+   * @default false
+   */
+  skipAuth?: boolean;
+}
+
+/**
+ * Client-agnostic hooks that add authentication to any HTTP client
+ */
+export interface RequestHooks {
+  /**
+   * Refresh if the access token is expiring soon and return the headers and query
+   * parameters to set on the request (empty without an access token or outside `urlScope`)
+   */
+  beforeRequest: (url: string, options?: RequestHookOptions) => Promise<RequestAuth>;
+
+  /**
+   * Refresh after a response with one of the `retryStatuses`
+   * Resolves true if the request should be sent again (with auth from `beforeRequest`)
+   */
+  afterResponse: (
+    response: { status: number },
+    url: string,
+    options?: RequestHookOptions
+  ) => Promise<boolean>;
+}
+
+/**
+ * Create request hooks from a retoken instance
+ * These are the steps `fetch` runs around every request, for use with other HTTP clients
+ *
+ * @param retoken - Retoken instance that owns refresh and token storage
+ * @returns RequestHooks instance
+ *
+ * @example
+ * ```typescript
+ * const hooks = createRequestHooks(retoken);
+ *
+ * const send = async () => {
+ *   const { headers, query } = await hooks.beforeRequest(url);
+ *   return myClient.get(url, { headers, params: query });
+ * };
+ * let response = await send();
+ * if (await hooks.afterResponse(response, url)) {
+ *   response = await send();
+ * }
+ * ```
+ */
+export function createRequestHooks(
+  retoken: Pick<
+    RetokenInstance,
+    'getRequestAuth' | 'isUrlInScope' | 'refreshBeforeRequest' | 'refreshForRetry'
+  >
+): RequestHooks {
+  return {
+    beforeRequest: async (url, options = {}) => {
+      if (options.skipAuth || !retoken.isUrlInScope(url)) return { headers: {}, query: {} };
+
+      if (!options.skipProactiveRefresh) {
+        await retoken.refreshBeforeRequest(url);
+      }
+
+      return retoken.getRequestAuth(url);
+    },
+    afterResponse: async (response, url, options = {}) => {
+      if (options.skipRetry || options.skipAuth) return false;
+      return retoken.refreshForRetry(response.status, url);
+    },
+  };
+}
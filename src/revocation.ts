@@ -0,0 +1,61 @@
+import { RevocationError } from './refresher';
+import type { RevocationEndpointConfig } from './types';
+
+/**
+ * Configuration for the revoker
+ */
+interface RevokerConfig {
+  revocationEndpoint: RevocationEndpointConfig;
+  fetch: typeof fetch;
+}
+
+/**
+ * Revoker instance with revoke method
+ */
+export interface Revoker {
+  revoke: (refreshToken: string) => Promise<void>;
+}
+
+/**
+ * Create a revoker that invalidates the refresh token server-side
+ *
+ * @param config - Revoker configuration
+ * @returns Revoker instance
+ */
+export function createRevoker(config: RevokerConfig): Revoker {
+  const { revocationEndpoint, fetch: fetchRequest } = config;
+
+  const {
+    url,
+    method = 'POST',
+    credentials = 'same-origin',
+    headers = {},
+    buildBody = (token: string) => JSON.stringify({ refresh_token: token || undefined }),
+    fetch: fetchRevocation = fetchRequest,
+  } = revocationEndpoint;
+
+  return {
+    revoke: async (refreshToken) => {
+      let response: Response;
+      try {
+        const endpointUrl = typeof url === 'function' ? await url(fetchRevocation) : url;
+
+        // No revocation endpoint (e.g. not advertised by the issuer)
+        if (!endpointUrl) return;
+
+        response = await fetchRevocation(endpointUrl, {
+          method,
+          credentials,
+          headers: { 'Content-Type': 'application/json', ...headers },
+          body: buildBody(refreshToken),
+        });
+      } catch (error) {
+        throw new RevocationError(error instanceof Error ? error.message : 'Revocation failed', 0);
+      }
+
+      if (!response.ok) {
+        throw new RevocationError(`Revocation failed: ${response.status}`, response.status);
+      }
+    },
+  };
+}
@@ -0,0 +1,94 @@
+import { parseTokenExpiration } from './jwt';
+import { setLongTimeout } from './timer';
+import type { TokenExpiryGetter, TokenGetter } from './types';
+
+/**
+ * Configuration for the refresh scheduler
+ */
+interface RefreshSchedulerConfig {
+  getAccessToken: TokenGetter;
+  getExpiresAt?: TokenExpiryGetter;
+  expirationLeeway: number;
+  refresh: () => Promise<unknown>;
+}
+
+/**
+ * Refresh scheduler instance
+ */
+export interface RefreshScheduler {
+  schedule: () => void;
+  cancel: () => void;
+}
+
+/**
+ * Shortest delay between refreshes of tokens that are already due when issued
+ */
+const MIN_REFRESH_DELAY = 1000;
+
+/**
+ * Create a scheduler that refreshes the access token `expirationLeeway` seconds
+ * before it expires
+ *
+ * Tokens without a readable expiration (JWT `exp` or stored `expiresAt`) are not scheduled.
+ *
+ * @param config - Configuration for the scheduler
+ * @returns RefreshScheduler instance
+ */
+export function createRefreshScheduler(config: RefreshSchedulerConfig): RefreshScheduler {
+  const { getAccessToken, getExpiresAt, expirationLeeway, refresh } = config;
+
+  let cancelTimer: (() => void) | null = null;
+  // Incremented on every schedule/cancel so a stale token read cannot arm a timer
+  let generation = 0;
+  // Set when the timer refreshed and no token outside the leeway has been scheduled since
+  let refreshedByTimer = false;
+
+  const cancel = (): void => {
+    generation++;
+    cancelTimer?.();
+    cancelTimer = null;
+  };
+
+  // Arm the timer for the given token
+  const scheduleFor = (token: string | null, expiresAt: number | null): void => {
+    if (!token) return;
+
+    const exp = parseTokenExpiration(token) ?? expiresAt;
+    if (exp === null) return;
+
+    let delay = exp - expirationLeeway * 1000 - Date.now();
+
+    if (delay > 0) {
+      refreshedByTimer = false;
+    } else if (refreshedByTimer) {
+      // A token that lives no longer than the leeway is due as soon as it is issued -
+      // refresh it halfway through its lifetime instead of back to back
+      delay = Math.max(MIN_REFRESH_DELAY, (exp - Date.now()) / 2);
+    }
+
+    cancelTimer = setLongTimeout(() => {
+      cancelTimer = null;
+      refreshedByTimer = true;
+      refresh().catch(() => {
+        // Failures are handled by the refresher (auth failure + logout broadcast)
+      });
+    }, delay);
+  };
+
+  const schedule = (): void => {
+    cancel();
+    const current = generation;
+
+    Promise.all([getAccessToken(), getExpiresAt?.() ?? null])
+      .then(([token, expiresAt]) => {
+        if (current === generation) {
+          scheduleFor(token, expiresAt);
+        }
+      })
+      .catch(() => {
+        // Token could not be read - nothing to schedule
+      });
+  };
+
+  return { schedule, cancel };
+}
@@ -0,0 +1,77 @@
+import { setLongTimeout } from './timer';
+
+/**
+ * Configuration for the session expiry warning
+ */
+interface SessionExpiryWarningConfig {
+  getExpiresAt: () => Promise<number | null>;
+  leadTime: number;
+  onWarning: (expiresAt: number) => void;
+}
+
+/**
+ * Session expiry warning instance
+ */
+export interface SessionExpiryWarning {
+  schedule: () => void;
+  cancel: () => void;
+}
+
+/**
+ * Create a warning that fires `leadTime` seconds before the session (refresh token)
+ * expires, once per expiration
+ *
+ * Sessions without a known expiration are not scheduled.
+ *
+ * @param config - Configuration for the warning
+ * @returns SessionExpiryWarning instance
+ */
+export function createSessionExpiryWarning(
+  config: SessionExpiryWarningConfig
+): SessionExpiryWarning {
+  const { getExpiresAt, leadTime, onWarning } = config;
+
+  let cancelTimer: (() => void) | null = null;
+  // Incremented on every schedule/cancel so a stale read cannot arm a timer
+  let generation = 0;
+  // Expiration already warned about, so rescheduling after a refresh does not repeat it
+  let warnedExpiresAt: number | null = null;
+
+  const cancel = (): void => {
+    generation++;
+    cancelTimer?.();
+    cancelTimer = null;
+  };
+
+  // Arm the timer for the given expiration
+  const scheduleFor = (expiresAt: number | null): void => {
+    // Already expired sessions end through auth failure on the next refresh instead
+    if (expiresAt === null || expiresAt === warnedExpiresAt || expiresAt <= Date.now()) return;
+
+    cancelTimer = setLongTimeout(
+      () => {
+        cancelTimer = null;
+        warnedExpiresAt = expiresAt;
+        onWarning(expiresAt);
+      },
+      expiresAt - leadTime * 1000 - Date.now()
+    );
+  };
+
+  const schedule = (): void => {
+    cancel();
+    const current = generation;
+
+    getExpiresAt()
+      .then((expiresAt) => {
+        if (current === generation) {
+          scheduleFor(expiresAt);
+        }
+      })
+      .catch(() => {
+        // Expiration could not be read - nothing to schedule
+      });
+  };
+
+  return { schedule, cancel };
+}
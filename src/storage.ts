@@ -0,0 +1,203 @@
+import type { TokenPair, TokenStorage } from './types';
+
+/**
+ * Minimal key-value store interface
+ * Compatible with the Web Storage API and async stores such as React Native AsyncStorage
+ */
+export interface KeyValueStore {
+  getItem: (key: string) => string | null | Promise<string | null>;
+  setItem: (key: string, value: string) => void | Promise<void>;
+  removeItem: (key: string) => void | Promise<void>;
+}
+
+/**
+ * Options for key-value backed token storage
+ */
+export interface KeyValueStorageOptions {
+  /**
+   * Key for the access token
+   * @default "access_token"
+   */
+  accessTokenKey?: string;
+
+  /**
+   * Key for the refresh token
+   * @default "refresh_token"
+   */
+  refreshTokenKey?: string;
+
+  /**
+   * Key for the access token expiration (`expiresAt`, for tokens that are not JWTs)
+   * @default "access_token_expires_at"
+   */
+  expiresAtKey?: string;
+
+  /**
+   * Key for the refresh token expiration (`refreshExpiresAt`), also stored in cookie mode
+   * @default "refresh_token_expires_at"
+   */
+  refreshExpiresAtKey?: string;
+
+  /**
+   * Store the refresh token
+   * Set to false for cookie mode (refresh token in an HTTP-only cookie)
+   * @default true
+   */
+  storeRefreshToken?: boolean;
+}
+
+/**
+ * Options for in-memory token storage
+ */
+export interface MemoryStorageOptions {
+  /**
+   * Tokens to start with
+   */
+  initialTokens?: Partial<TokenPair>;
+
+  /**
+   * Store the refresh token
+   * Set to false for cookie mode (refresh token in an HTTP-only cookie)
+   * @default true
+   */
+  storeRefreshToken?: boolean;
+}
+
+/**
+ * Wait for all results that are promises, staying synchronous if none are
+ */
+function settleAll(results: (void | Promise<void>)[]): void | Promise<void> {
+  const pending = results.filter((result) => result instanceof Promise);
+  if (pending.length > 0) {
+    return Promise.all(pending).then(() => undefined);
+  }
+}
+
+/**
+ * Create token storage backed by any key-value store (sync or async)
+ *
+ * @param store - Key-value store (e.g. localStorage, AsyncStorage or a custom store)
+ * @param options - Storage key options
+ * @returns TokenStorage instance
+ */
+export function createKeyValueStorage(
+  store: KeyValueStore,
+  options: KeyValueStorageOptions = {}
+): TokenStorage {
+  const {
+    accessTokenKey = 'access_token',
+    refreshTokenKey = 'refresh_token',
+    expiresAtKey = 'access_token_expires_at',
+    refreshExpiresAtKey = 'refresh_token_expires_at',
+    storeRefreshToken = true,
+  } = options;
+
+  // Parse the stored expiration, ignoring missing or malformed values
+  const parseExpiresAt = (value: string | null): number | null => {
+    const expiresAt = value === null ? NaN : Number(value);
+    return Number.isFinite(expiresAt) ? expiresAt : null;
+  };
+
+  const readExpiresAt = (key: string): number | null | Promise<number | null> => {
+    const value = store.getItem(key);
+    return value instanceof Promise ? value.then(parseExpiresAt) : parseExpiresAt(value);
+  };
+
+  // Store an expiration, dropping the previous one when there is none
+  const writeExpiresAt = (key: string, expiresAt: number | undefined): void | Promise<void> => {
+    return expiresAt !== undefined ? store.setItem(key, String(expiresAt)) : store.removeItem(key);
+  };
+
+  return {
+    getAccessToken: () => store.getItem(accessTokenKey),
+    getRefreshToken: storeRefreshToken ? () => store.getItem(refreshTokenKey) : undefined,
+    getExpiresAt: () => readExpiresAt(expiresAtKey),
+    getRefreshExpiresAt: () => readExpiresAt(refreshExpiresAtKey),
+    setTokens: (tokens) => {
+      return settleAll([
+        store.setItem(accessTokenKey, tokens.accessToken),
+        storeRefreshToken ? store.setItem(refreshTokenKey, tokens.refreshToken) : undefined,
+        writeExpiresAt(expiresAtKey, tokens.expiresAt),
+        writeExpiresAt(refreshExpiresAtKey, tokens.refreshExpiresAt),
+      ]);
+    },
+    clearTokens: () => {
+      return settleAll([
+        store.removeItem(accessTokenKey),
+        storeRefreshToken ? store.removeItem(refreshTokenKey) : undefined,
+        store.removeItem(expiresAtKey),
+        store.removeItem(refreshExpiresAtKey),
+      ]);
+    },
+  };
+}
+
+/**
+ * Create token storage backed by localStorage
+ * localStorage is accessed lazily, so this is safe to call during SSR
+ *
+ * @param options - Storage key options
+ * @returns TokenStorage instance
+ */
+export function createLocalStorage(options: KeyValueStorageOptions = {}): TokenStorage {
+  return createKeyValueStorage(
+    {
+      getItem: (key) => localStorage.getItem(key),
+      setItem: (key, value) => localStorage.setItem(key, value),
+      removeItem: (key) => localStorage.removeItem(key),
+    },
+    options
+  );
+}
+
+/**
+ * Create token storage backed by sessionStorage
+ * sessionStorage is accessed lazily, so this is safe to call during SSR
+ *
+ * @param options - Storage key options
+ * @returns TokenStorage instance
+ */
+export function createSessionStorage(options: KeyValueStorageOptions = {}): TokenStorage {
+  return createKeyValueStorage(
+    {
+      getItem: (key) => sessionStorage.getItem(key),
+      setItem: (key, value) => sessionStorage.setItem(key, value),
+      removeItem: (key) => sessionStorage.removeItem(key),
+    },
+    options
+  );
+}
+
+/**
+ * Create token storage that keeps tokens in memory
+ * Tokens do not survive a page reload and are not shared between tabs
+ *
+ * @param options - Memory storage options
+ * @returns TokenStorage instance
+ */
+export function createMemoryStorage(options: MemoryStorageOptions = {}): TokenStorage {
+  const { initialTokens = {}, storeRefreshToken = true } = options;
+  const values = new Map<string, string>();
+
+  if (initialTokens.accessToken) values.set('access_token', initialTokens.accessToken);
+  if (initialTokens.refreshToken) values.set('refresh_token', initialTokens.refreshToken);
+  if (initialTokens.expiresAt !== undefined) {
+    values.set('access_token_expires_at', String(initialTokens.expiresAt));
+  }
+  if (initialTokens.refreshExpiresAt !== undefined) {
+    values.set('refresh_token_expires_at', String(initialTokens.refreshExpiresAt));
+  }
+
+  return createKeyValueStorage(
+    {
+      getItem: (key) => values.get(key) ?? null,
+      setItem: (key, value) => {
+        values.set(key, value);
+      },
+      removeItem: (key) => {
+        values.delete(key);
+      },
+    },
+    { storeRefreshToken }
+  );
+}
@@ -0,0 +1,48 @@
+import { subscribeIsAuthenticated } from './authState';
+import type { AuthState, RetokenInstance } from './types';
+
+/**
+ * Readable store following the Svelte store contract
+ * Compatible with `$store` syntax without depending on svelte
+ */
+export interface Readable<T> {
+  subscribe: (run: (value: T) => void) => () => void;
+}
+
+/**
+ * Create a readable store of the auth state of a retoken instance
+ * Subscribers receive the current state immediately and on every change
+ *
+ * @param retoken - Retoken instance to observe
+ * @returns Readable store of AuthState
+ *
+ * @example
+ * ```svelte
+ * <script>
+ *   const authState = createAuthStore(retoken);
+ * </script>
+ *
+ * {#if $authState === 'refreshing'}<Spinner />{/if}
+ * ```
+ */
+export function createAuthStore(retoken: RetokenInstance): Readable<AuthState> {
+  return {
+    subscribe: (run) => {
+      run(retoken.getState());
+      return retoken.subscribe((state) => run(state));
+    },
+  };
+}
+
+/**
+ * Create a readable store that is true while the user is authenticated
+ * Stays true during a refresh and while offline if a token was stored
+ *
+ * @param retoken - Retoken instance to observe
+ * @returns Readable store of boolean
+ */
+export function createIsAuthenticatedStore(retoken: RetokenInstance): Readable<boolean> {
+  return {
+    subscribe: (run) => subscribeIsAuthenticated(retoken, run),
+  };
+}
@@ -0,0 +1,29 @@
+/**
+ * Longest delay setTimeout supports (~24.8 days); a longer delay would overflow and fire
+ * immediately, so it is split into repeated timeouts
+ */
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+/**
+ * Run a callback after a delay of any length, splitting delays beyond MAX_TIMEOUT
+ * The remaining time is measured against the clock each time the delay is split
+ *
+ * @param callback - Function to run once the delay has passed
+ * @param delay - Delay in milliseconds
+ * @returns Function that cancels the timer
+ */
+export function setLongTimeout(callback: () => void, delay: number): () => void {
+  const runAt = Date.now() + delay;
+  let timer: ReturnType<typeof setTimeout>;
+
+  const arm = (): void => {
+    const remaining = runAt - Date.now();
+    timer =
+      remaining > MAX_TIMEOUT
+        ? setTimeout(arm, MAX_TIMEOUT)
+        : setTimeout(callback, Math.max(0, remaining));
+  };
+  arm();
+
+  return () => clearTimeout(timer);
+}
@@ -0,0 +1,49 @@
+import type { RequestAuth, TokenPlacementConfig } from './types';
+
+/**
+ * Create a function that places an access token on a request
+ * In a header (`Authorization: Bearer <token>` by default) or a query parameter
+ *
+ * @param config - Token placement configuration
+ * @returns Function returning the headers and query parameters that carry the token
+ */
+export function createTokenPlacement(
+  config: TokenPlacementConfig = {}
+): (token: string | null) => RequestAuth {
+  const { in: placement = 'header', scheme = 'Bearer' } = config;
+  const name = config.name ?? (placement === 'query' ? 'access_token' : 'Authorization');
+
+  return (token) => {
+    if (!token) return { headers: {}, query: {} };
+
+    if (placement === 'query') {
+      return { headers: {}, query: { [name]: token } };
+    }
+    return { headers: { [name]: scheme ? `${scheme} ${token}` : token }, query: {} };
+  };
+}
+
+/**
+ * Set query parameters on a URL, keeping relative URLs relative
+ *
+ * @param url - Absolute or relative URL
+ * @param query - Parameters to set (replacing existing values)
+ * @returns URL with the parameters
+ */
+export function withQueryParams(url: string, query: Record<string, string>): string {
+  const entries = Object.entries(query);
+  if (entries.length === 0) return url;
+
+  const hashIndex = url.indexOf('#');
+  const hash = hashIndex === -1 ? '' : url.slice(hashIndex);
+  const withoutHash = hashIndex === -1 ? url : url.slice(0, hashIndex);
+
+  const searchIndex = withoutHash.indexOf('?');
+  const path = searchIndex === -1 ? withoutHash : withoutHash.slice(0, searchIndex);
+  const params = new URLSearchParams(searchIndex === -1 ? '' : withoutHash.slice(searchIndex + 1));
+  for (const [name, value] of entries) {
+    params.set(name, value);
+  }
+
+  return `${path}?${params.toString()}${hash}`;
+}
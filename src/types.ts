@@ -1,41 +1,119 @@
+import type { EnvironmentSource } from './environment';
+import type { LockProvider } from './lock';
+import type { RefreshError } from './refresher';
+
 /**
  * Token pair containing access and refresh tokens
  */
 export interface TokenPair {
   accessToken: string;
   refreshToken: string;
+
+  /**
+   * Lifetime of the access token in seconds, if the refresh endpoint reports it
+   * Converted to `expiresAt` when the tokens are stored
+   */
+  expiresIn?: number;
+
+  /**
+   * Expiration of the access token as a timestamp in milliseconds
+   * Used for expiry decisions when the access token is not a JWT with an `exp` claim
+   */
+  expiresAt?: number;
+
+  /**
+   * Lifetime of the refresh token in seconds (e.g. `refresh_expires_in`)
+   * Converted to `refreshExpiresAt` when the tokens are stored
+   */
+  refreshExpiresIn?: number;
+
+  /**
+   * Expiration of the refresh token as a timestamp in milliseconds
+   * Used when the refresh token is not a JWT with an `exp` claim
+   */
+  refreshExpiresAt?: number;
 }
 
 /**
  * Function type for getting the current access token
+ * May return a promise for async storage (IndexedDB, AsyncStorage, etc.)
  */
-export type TokenGetter = () => string | null;
+export type TokenGetter = () => string | null | Promise<string | null>;
 
 /**
  * Function type for getting the current refresh token
  * Optional - if not provided, assumes cookie mode
+ * May return a promise for async storage
+ */
+export type RefreshTokenGetter = () => string | null | Promise<string | null>;
+
+/**
+ * Function type for getting the stored expiration of the access token
+ * (`expiresAt` of the last stored TokenPair, in milliseconds)
+ * May return a promise for async storage
  */
-export type RefreshTokenGetter = () => string | null;
+export type TokenExpiryGetter = () => number | null | Promise<number | null>;
 
 /**
  * Function type for storing new tokens after refresh
+ * May return a promise for async storage
  */
-export type TokenSetter = (tokens: TokenPair) => void;
+export type TokenSetter = (tokens: TokenPair) => void | Promise<void>;
 
 /**
  * Function type for clearing tokens on auth failure
+ * May return a promise for async storage
  */
-export type TokenClearer = () => void;
+export type TokenClearer = () => void | Promise<void>;
+
+/**
+ * Token storage used in place of the individual token callbacks
+ */
+export interface TokenStorage {
+  /**
+   * Get the current access token
+   */
+  getAccessToken: TokenGetter;
+
+  /**
+   * Get the current refresh token
+   * Omit for cookie mode (HTTP-only cookie)
+   */
+  getRefreshToken?: RefreshTokenGetter;
+
+  /**
+   * Get the stored expiration of the access token, for tokens that are not JWTs
+   * Omit if `expiresAt` is not persisted by setTokens
+   */
+  getExpiresAt?: TokenExpiryGetter;
+
+  /**
+   * Get the stored expiration of the refresh token, for refresh tokens that are not JWTs
+   * Omit if `refreshExpiresAt` is not persisted by setTokens
+   */
+  getRefreshExpiresAt?: TokenExpiryGetter;
+
+  /**
+   * Store new tokens after refresh
+   */
+  setTokens: TokenSetter;
+
+  /**
+   * Clear tokens on auth failure
+   */
+  clearTokens: TokenClearer;
+}
 
 /**
  * Configuration for the refresh endpoint request
  */
 export interface RefreshEndpointConfig<TResponse = unknown> {
   /**
-   * Full URL to the refresh endpoint
+   * Full URL to the refresh endpoint, or a function resolving it before each refresh
+   * (e.g. from OpenID Connect discovery), called with the fetch used for the refresh
    * @example "https://api.example.com/auth/refresh"
    */
-  url: string;
+  url: string | ((fetch: typeof globalThis.fetch) => string | Promise<string>);
 
   /**
    * HTTP method for refresh request
@@ -56,16 +134,142 @@ export interface RefreshEndpointConfig<TResponse = unknown> {
 
   /**
    * Function to build the request body from the refresh token
-   * Not needed in cookie mode
-   * @default (token) => JSON.stringify({ refresh_token: token })
+   * Not needed in cookie mode; for `audiences`, also receives the audience
+   * (in cookie mode, with an empty refresh token)
+   * @default (token, audience) => JSON.stringify({ refresh_token: token, audience })
    */
-  buildBody?: (refreshToken: string) => BodyInit;
+  buildBody?: (refreshToken: string, audience?: string) => BodyInit;
 
   /**
    * Function to extract TokenPair from the response
    * Use generics for full type safety
    */
   parseResponse: (response: TResponse) => TokenPair;
+
+  /**
+   * Function to turn an unsuccessful response into a RefreshError, e.g. to read the
+   * error code from the body; a terminal error is not retried
+   * @default RefreshError with the response status
+   */
+  parseError?: (response: Response) => Promise<RefreshError | undefined>;
+
+  /**
+   * Fetch implementation used for the refresh request
+   * @default the `fetch` option of RetokenConfig
+   */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Configuration for the token revocation request sent by `logout()`
+ */
+export interface RevocationEndpointConfig {
+  /**
+   * Full URL to the revocation endpoint, or a function resolving it on logout
+   * (e.g. from OpenID Connect discovery), called with the fetch used for the revocation;
+   * resolving to null skips revocation
+   * @example "https://api.example.com/auth/logout"
+   */
+  url: string | ((fetch: typeof globalThis.fetch) => string | null | Promise<string | null>);
+
+  /**
+   * HTTP method for the revocation request
+   * @default "POST"
+   */
+  method?: 'POST' | 'DELETE';
+
+  /**
+   * Credentials mode for fetch (use 'include' for cookie mode)
+   * @default "same-origin"
+   */
+  credentials?: RequestCredentials;
+
+  /**
+   * Additional headers to include in the revocation request
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Function to build the request body from the refresh token
+   * (in cookie mode, with an empty refresh token)
+   * @default (token) => JSON.stringify({ refresh_token: token })
+   */
+  buildBody?: (refreshToken: string) => BodyInit;
+
+  /**
+   * Fetch implementation used for the revocation request
+   * @default the `fetch` option of RetokenConfig
+   */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Matches request URLs for UrlScopeConfig
+ * - "/api" matches same-origin URLs under the path
+ * - "https://api.example.com" (optionally with a path) matches URLs of that origin
+ * - RegExp is tested against the full URL
+ * - Functions receive the URL resolved against the page location
+ */
+export type UrlMatcher = string | RegExp | ((url: URL) => boolean);
+
+/**
+ * URLs that receive the access token and are refreshed + retried on retryStatuses
+ */
+export interface UrlScopeConfig {
+  /**
+   * Only these URLs are in scope
+   * @default every URL
+   */
+  allow?: UrlMatcher[];
+
+  /**
+   * URLs excluded from scope, even if allowed
+   * @default []
+   */
+  deny?: UrlMatcher[];
+}
+
+/**
+ * Access token for another audience (resource server), obtained with the shared refresh token
+ */
+export interface AudienceConfig {
+  /**
+   * URLs that use this audience's access token
+   * @example ['https://orders.example.com']
+   */
+  urls: UrlMatcher[];
+}
+
+/**
+ * Where the access token is sent on requests
+ */
+export interface TokenPlacementConfig {
+  /**
+   * Send the token in a header or a query parameter
+   * @default "header"
+   */
+  in?: 'header' | 'query';
+
+  /**
+   * Header or query parameter name
+   * @default "Authorization" for headers, "access_token" for query parameters
+   */
+  name?: string;
+
+  /**
+   * Scheme before the token in the header (e.g. "Bearer", "DPoP", "Token")
+   * Use an empty string to send the token alone
+   * @default "Bearer"
+   */
+  scheme?: string;
+}
+
+/**
+ * Headers and query parameters that carry the access token on a request
+ */
+export interface RequestAuth {
+  headers: Record<string, string>;
+  query: Record<string, string>;
 }
 
 /**
@@ -100,8 +304,208 @@ export interface CrossTabConfig {
    * @default "ts-retoken-auth"
    */
   channelName?: string;
+
+  /**
+   * Milliseconds to wait for a refresh started by another tab before
+   * falling back to refreshing in this tab
+   * @default 30000
+   */
+  refreshTimeout?: number;
+
+  /**
+   * Elect a single leader tab that owns proactive refresh scheduling
+   * Other tabs skip proactive refresh and adopt the leader's refreshed tokens
+   * @default { enabled: false }
+   */
+  leaderElection?: LeaderElectionConfig;
 }
 
+/**
+ * Configuration for leader election across tabs
+ */
+export interface LeaderElectionConfig {
+  /**
+   * Enable leader election (requires cross-tab sync)
+   * @default false
+   */
+  enabled: boolean;
+
+  /**
+   * Milliseconds between leader heartbeats
+   * Without backgroundRefresh, the leader also checks token expiration on every heartbeat
+   * @default 2000
+   */
+  heartbeatInterval?: number;
+
+  /**
+   * Milliseconds without a heartbeat before another tab takes over
+   * @default 5000
+   */
+  leaderTimeout?: number;
+}
+
+/**
+ * Configuration for the refresh lock shared between tabs and workers
+ */
+export interface RefreshLockConfig {
+  /**
+   * Acquire a named lock around each refresh
+   * After acquiring it, tokens are re-read and the refresh request is skipped
+   * if another context already rotated them
+   * @default false
+   */
+  enabled: boolean;
+
+  /**
+   * Lock name
+   * @default "ts-retoken-refresh"
+   */
+  name?: string;
+
+  /**
+   * Lock implementation
+   * Refresh runs without a lock if omitted and the Web Locks API is unavailable
+   * @default Web Locks API (navigator.locks)
+   */
+  provider?: LockProvider;
+}
+
+/**
+ * Configuration for background refresh scheduling
+ */
+export interface BackgroundRefreshConfig {
+  /**
+   * Refresh on a timer `expirationLeeway` seconds before the access token
+   * expires, instead of waiting for the next request
+   * Only tokens with a readable expiration are scheduled
+   * @default false
+   */
+  enabled: boolean;
+
+  /**
+   * Pause scheduling while the page is hidden and check the token as soon as
+   * it becomes visible again
+   * Scheduling is always paused while offline
+   * @default true
+   */
+  pauseWhenHidden?: boolean;
+}
+
+/**
+ * Outgoing request as seen by middleware
+ */
+export interface RetokenRequest {
+  /**
+   * Request URL
+   */
+  url: string;
+
+  /**
+   * Fetch options; headers already include the Authorization header
+   */
+  init: Omit<RequestInit, 'headers'> & { headers: Headers };
+
+  /**
+   * Whether this is the retry sent after a token refresh
+   */
+  isRetry: boolean;
+}
+
+/**
+ * Middleware wrapping every request sent by the fetch wrapper
+ * Call `next` to continue the chain (optionally with a modified request) and
+ * return its response (optionally transformed)
+ *
+ * @example
+ * ```typescript
+ * const logger: Middleware = async (request, next) => {
+ *   const response = await next(request);
+ *   console.log(request.url, response.status);
+ *   return response;
+ * };
+ * ```
+ */
+export type Middleware = (
+  request: RetokenRequest,
+  next: (request: RetokenRequest) => Promise<Response>
+) => Promise<Response>;
+
+/**
+ * Why tokens were cleared
+ * - `authFailure`: refresh failed for good (involuntary)
+ * - `user`: `logout()` was called
+ */
+export type LogoutReason = 'authFailure' | 'user';
+
+/**
+ * Auth lifecycle events emitted by a retoken instance, keyed by name with their payloads
+ */
+export interface RetokenEventMap {
+  /**
+   * A refresh request is about to start in this tab
+   */
+  refreshStart: void;
+
+  /**
+   * New tokens were stored, including tokens adopted from another tab
+   */
+  refreshSuccess: TokenPair;
+
+  /**
+   * A refresh attempt failed and will be retried after `delay` milliseconds
+   * `attempt` is the number of the upcoming retry, starting at 1
+   */
+  refreshRetry: { attempt: number; delay: number; error: unknown };
+
+  /**
+   * Refresh failed for good; other errors are wrapped in a RefreshError with status 0
+   */
+  refreshFailure: RefreshError;
+
+  /**
+   * Tokens were cleared in this tab
+   */
+  logout: { reason: LogoutReason };
+
+  /**
+   * Another tab logged out and tokens were cleared here too
+   */
+  crossTabLogout: { reason: LogoutReason };
+
+  /**
+   * A request was sent again after refreshing on one of the `retryStatuses`
+   */
+  requestRetried: { url: string; status: number };
+
+  /**
+   * The refresh token expires within `sessionExpiryWarning` seconds, after which
+   * the user has to sign in again; `expiresAt` is in milliseconds
+   */
+  sessionExpiring: { expiresAt: number };
+}
+
+/**
+ * Authentication state of a retoken instance
+ * - `idle`: not known yet (no access token stored and no refresh has run)
+ * - `refreshing`: a refresh is in progress in this tab or another tab
+ * - `authenticated`: an access token is stored or a refresh succeeded
+ * - `unauthenticated`: refresh failed or the user was logged out (in any tab)
+ * - `offline`: the network is unavailable
+ */
+export type AuthState = 'idle' | 'refreshing' | 'authenticated' | 'unauthenticated' | 'offline';
+
+/**
+ * Listener for auth state changes
+ */
+export type AuthStateListener = (state: AuthState, previousState: AuthState) => void;
+
+/**
+ * Listener for a retoken lifecycle event
+ */
+export type RetokenEventListener<K extends keyof RetokenEventMap> = (
+  payload: RetokenEventMap[K]
+) => void;
+
 /**
  * Main configuration for createRetoken
  */
@@ -111,26 +515,57 @@ export interface RetokenConfig<TResponse = unknown> {
    */
   refreshEndpoint: RefreshEndpointConfig<TResponse>;
 
+  /**
+   * Endpoint that revokes the refresh token on `logout()`
+   * Without it, `logout()` only clears tokens locally
+   * @example createOAuthRevocationEndpoint({ url: '...', clientId: 'my-app' })
+   */
+  revocationEndpoint?: RevocationEndpointConfig;
+
+  /**
+   * Token storage adapter, used in place of the token callbacks below
+   * Individual callbacks take precedence over the storage methods
+   * @example createLocalStorage()
+   */
+  storage?: TokenStorage;
+
   /**
    * Function to get the current access token
+   * Required unless `storage` is provided
    */
-  getAccessToken: TokenGetter;
+  getAccessToken?: TokenGetter;
 
   /**
    * Function to get the current refresh token
-   * Optional - if not provided, assumes cookie mode (HTTP-only cookie)
+   * Optional - if not provided (here or by `storage`), assumes cookie mode (HTTP-only cookie)
    */
   getRefreshToken?: RefreshTokenGetter;
 
+  /**
+   * Function to get the stored expiration of the access token (`expiresAt` passed to
+   * setTokens), used when the access token is not a JWT
+   * Optional - without it (here or in `storage`), such tokens always count as expiring soon
+   */
+  getExpiresAt?: TokenExpiryGetter;
+
+  /**
+   * Function to get the stored expiration of the refresh token (`refreshExpiresAt`
+   * passed to setTokens), used when the refresh token is not a JWT
+   * Once the refresh token has expired, refresh fails without a network call
+   */
+  getRefreshExpiresAt?: TokenExpiryGetter;
+
   /**
    * Function to store new tokens after successful refresh
+   * Required unless `storage` is provided
    */
-  setTokens: TokenSetter;
+  setTokens?: TokenSetter;
 
   /**
    * Function to clear tokens on auth failure
+   * Required unless `storage` is provided
    */
-  clearTokens: TokenClearer;
+  clearTokens?: TokenClearer;
 
   /**
    * Seconds before expiration to consider token "expiring soon"
@@ -163,6 +598,81 @@ export interface RetokenConfig<TResponse = unknown> {
    */
   crossTab?: CrossTabConfig;
 
+  /**
+   * Refresh lock configuration
+   * @default { enabled: false }
+   */
+  lock?: RefreshLockConfig;
+
+  /**
+   * Background refresh configuration
+   * With leader election, only the leader tab schedules refreshes
+   * @default { enabled: false }
+   */
+  backgroundRefresh?: BackgroundRefreshConfig;
+
+  /**
+   * Source of network and page visibility events
+   * While offline, refresh attempts wait for the network instead of using up retries
+   * Pass null to ignore the environment
+   * @default browser online/offline and visibilitychange events (null outside the browser)
+   */
+  environment?: EnvironmentSource | null;
+
+  /**
+   * Middleware run around every request sent by `fetch` and `fetchJson`,
+   * including the retry after a token refresh (not the refresh request itself)
+   * The first middleware is the outermost
+   * @default []
+   */
+  middleware?: Middleware[];
+
+  /**
+   * Where the access token is sent on requests
+   * @default { in: 'header', name: 'Authorization', scheme: 'Bearer' }
+   */
+  tokenPlacement?: TokenPlacementConfig;
+
+  /**
+   * Access tokens for other audiences (resource servers), keyed by audience
+   * Requests to an audience's URLs use its own access token, requested from the refresh
+   * endpoint with the shared refresh token and the audience, and kept in memory
+   * The first audience whose URLs match is used; other URLs use the main access token
+   * @default {}
+   * @example { 'https://orders.example.com': { urls: ['https://orders.example.com'] } }
+   */
+  audiences?: Record<string, AudienceConfig>;
+
+  /**
+   * URLs that receive the access token
+   * Requests to other URLs are sent without it and are not refreshed + retried
+   * @default every URL
+   * @example { allow: ['/api', 'https://api.example.com'], deny: ['/api/public'] }
+   */
+  urlScope?: UrlScopeConfig;
+
+  /**
+   * Largest streamed request body, in bytes, buffered so it can be sent again
+   * after a token refresh; larger streams are sent without a retry
+   * (NonReplayableBodyError is thrown instead)
+   * @default 1048576 (1 MiB)
+   */
+  retryBodyLimit?: number;
+
+  /**
+   * Fetch implementation used for API requests and the refresh request
+   * (SSR with per-request fetch, custom agents, service bindings, test transports)
+   * @default globalThis.fetch, looked up on every request
+   */
+  fetch?: typeof fetch;
+
+  /**
+   * Seconds before the refresh token expires to emit `sessionExpiring`
+   * (JWT refresh tokens, or a stored `refreshExpiresAt`)
+   * @default undefined (no warning)
+   */
+  sessionExpiryWarning?: number;
+
   /**
    * Callback invoked when authentication fails completely
    * (refresh token is invalid/expired and all retries exhausted)
@@ -173,6 +683,12 @@ export interface RetokenConfig<TResponse = unknown> {
    * Callback invoked when tokens are successfully refreshed
    */
   onTokenRefresh?: (tokens: TokenPair) => void;
+
+  /**
+   * Callback invoked when the user logs out with `logout()`, in this tab
+   * and (with crossTab enabled) in other tabs; onAuthFailure is not called
+   */
+  onLogout?: () => void;
 }
 
 /**
@@ -181,8 +697,9 @@ export interface RetokenConfig<TResponse = unknown> {
 export interface RetokenFetchOptions extends Omit<RequestInit, 'headers'> {
   /**
    * Request headers (will be merged with auth header)
+   * Replace the headers of a `Request` input, as with `fetch`
    */
-  headers?: Record<string, string>;
+  headers?: HeadersInit;
 
   /**
    * Skip proactive token refresh for this request
@@ -195,6 +712,13 @@ export interface RetokenFetchOptions extends Omit<RequestInit, 'headers'> {
    * @default false
    */
   skipRetry?: boolean;
+
+  /**
+   * Send this request without the access token, keeping any Authorization header
+   * passed by the caller (also skips proactive refresh and retry)
+   * @default false
+   */
+  skipAuth?: boolean;
 }
 
 /**
@@ -216,8 +740,9 @@ export interface RetokenInstance {
    * Fetch wrapper that handles token refresh automatically
    * - Proactively refreshes token if expiring soon
    * - Retries with new token on retryStatuses response
+   * Accepts the same arguments as `fetch`, so it can be passed to libraries expecting one
    */
-  fetch: (url: string, options?: RetokenFetchOptions) => Promise<Response>;
+  fetch: (input: RequestInfo | URL, options?: RetokenFetchOptions) => Promise<Response>;
 
   /**
    * Type-safe fetch wrapper that returns parsed JSON
@@ -232,7 +757,7 @@ export interface RetokenInstance {
    * // user is typed as User
    * ```
    */
-  fetchJson: <T>(url: string, options?: RetokenFetchJsonOptions) => Promise<T>;
+  fetchJson: <T>(input: RequestInfo | URL, options?: RetokenFetchJsonOptions) => Promise<T>;
 
   /**
    * Manually trigger token refresh
@@ -242,22 +767,118 @@ export interface RetokenInstance {
 
   /**
    * Check if the current access token is expiring soon
+   * Throws if the token functions (or storage) are async - use isTokenExpiringSoonAsync
    */
   isTokenExpiringSoon: () => boolean;
 
+  /**
+   * Check if the current access token is expiring soon, with sync or async token functions
+   */
+  isTokenExpiringSoonAsync: () => Promise<boolean>;
+
+  /**
+   * Get the current access token
+   */
+  getAccessToken: () => Promise<string | null>;
+
+  /**
+   * Get the headers and query parameters that carry the current access token,
+   * as configured by `tokenPlacement` (empty without an access token)
+   * Pass the request URL to use the access token of its audience
+   */
+  getRequestAuth: (url?: string) => Promise<RequestAuth>;
+
+  /**
+   * Whether a URL is in `urlScope` (receives the access token)
+   */
+  isUrlInScope: (url: string) => boolean;
+
+  /**
+   * Refresh if the access token is expiring soon, as `fetch` does before each request
+   * Skipped while offline or while another tab leads refresh; never rejects
+   * Pass the request URL to refresh the access token of its audience (also fetched if missing)
+   * Use to integrate other HTTP clients
+   */
+  refreshBeforeRequest: (url?: string) => Promise<void>;
+
+  /**
+   * Refresh after a response with one of the `retryStatuses`, as `fetch` does
+   * Resolves true if the request should be retried with the new token
+   * (always false for URLs outside `urlScope`)
+   * Use to integrate other HTTP clients
+   */
+  refreshForRetry: (status: number, url: string) => Promise<boolean>;
+
   /**
    * Parse expiration timestamp from a JWT token
    * Returns null if token is invalid
    */
   parseTokenExpiration: (token: string) => number | null;
 
+  /**
+   * Whether this tab owns proactive refresh scheduling
+   * Always true when leader election is disabled
+   */
+  isLeader: () => boolean;
+
+  /**
+   * Subscribe to an auth lifecycle event
+   * Returns a function that removes the listener
+   *
+   * @example
+   * ```typescript
+   * const unsubscribe = retoken.on('refreshRetry', ({ attempt, delay }) => {
+   *   console.log(`Refresh retry ${attempt} in ${delay}ms`);
+   * });
+   * ```
+   */
+  on: <K extends keyof RetokenEventMap>(event: K, listener: RetokenEventListener<K>) => () => void;
+
+  /**
+   * Remove a listener added with `on`
+   */
+  off: <K extends keyof RetokenEventMap>(event: K, listener: RetokenEventListener<K>) => void;
+
+  /**
+   * Get the current auth state
+   */
+  getState: () => AuthState;
+
+  /**
+   * Subscribe to auth state changes
+   * Returns a function that removes the listener
+   *
+   * @example
+   * ```typescript
+   * retoken.subscribe((state) => {
+   *   if (state === 'unauthenticated') router.push('/login');
+   * });
+   * ```
+   */
+  subscribe: (listener: AuthStateListener) => () => void;
+
+  /**
+   * Log in: store the tokens from your login endpoint, set the auth state to 'authenticated'
+   * and schedule background refresh and the session expiry warning from them
+   * Use after startup or after logout
+   * `expiresIn` and `refreshExpiresIn` are converted to timestamps, as after a refresh
+   */
+  login: (tokens: TokenPair) => Promise<void>;
+
+  /**
+   * Log out: clear tokens, broadcast to other tabs (if crossTab enabled), emit `logout`
+   * with reason 'user', call onLogout and revoke the refresh token at `revocationEndpoint`
+   * Tokens are cleared even if revocation fails; the promise then rejects with RevocationError
+   */
+  logout: () => Promise<void>;
+
   /**
    * Manually broadcast logout to other tabs (if crossTab enabled)
    */
   broadcastLogout: () => void;
 
   /**
-   * Cleanup resources (BroadcastChannel, etc.)
+   * Cleanup resources (BroadcastChannel, timers, event listeners, etc.)
    * Call this when unmounting/destroying
    */
   destroy: () => void;
@@ -0,0 +1,66 @@
+import type { UrlMatcher, UrlScopeConfig } from './types';
+
+// Base for relative URLs outside the browser; they count as same-origin
+const RELATIVE_BASE = 'http://same-origin.invalid';
+
+/**
+ * Resolve a URL against the page location (or a placeholder origin outside the browser)
+ * Returns null if the URL cannot be parsed
+ */
+function resolveUrl(url: string): URL | null {
+  try {
+    return new URL(url, typeof location === 'undefined' ? RELATIVE_BASE : location.href);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a path starts with a prefix at a segment boundary ("/api" matches "/api/users", not "/apiary")
+ */
+function hasPathPrefix(pathname: string, prefix: string): boolean {
+  if (prefix.endsWith('/')) return pathname.startsWith(prefix);
+  return pathname === prefix || pathname.startsWith(`${prefix}/`);
+}
+
+/**
+ * Test a resolved URL against a matcher
+ * - "/path" matches same-origin URLs under the path
+ * - "https://host[/path]" matches URLs of that origin (under the path, if given)
+ * - RegExp is tested against the full URL
+ * - Functions receive the resolved URL
+ */
+function matches(url: URL, matcher: UrlMatcher): boolean {
+  if (typeof matcher === 'function') return matcher(url);
+  if (matcher instanceof RegExp) return matcher.test(url.href);
+
+  const target = resolveUrl(matcher);
+  return (
+    target !== null && target.origin === url.origin && hasPathPrefix(url.pathname, target.pathname)
+  );
+}
+
+/**
+ * Create a check for whether a URL may receive the access token
+ * A URL is in scope if it matches an `allow` matcher (or no allow-list is set)
+ * and matches no `deny` matcher
+ *
+ * @param config - Allow and deny lists
+ * @returns Function returning true if the URL is in scope
+ */
+export function createUrlScope(config: UrlScopeConfig = {}): (url: string) => boolean {
+  const { allow, deny = [] } = config;
+
+  // Without lists, every URL is in scope
+  if (!allow && deny.length === 0) {
+    return () => true;
+  }
+
+  return (url) => {
+    const resolved = resolveUrl(url);
+    if (!resolved) return false;
+
+    const allowed = !allow || allow.some((matcher) => matches(resolved, matcher));
+    return allowed && !deny.some((matcher) => matches(resolved, matcher));
+  };
+}
@@ -0,0 +1,105 @@
+import { computed, getCurrentScope, inject, onScopeDispose, readonly, shallowRef } from 'vue';
+import type { ComputedRef, InjectionKey, Plugin, Ref } from 'vue';
+import { subscribeIsAuthenticated } from './authState';
+import type { AuthState, RetokenInstance } from './types';
+
+/**
+ * Injection key for the retoken instance provided by `createRetokenPlugin`
+ */
+export const retokenKey: InjectionKey<RetokenInstance> = Symbol('retoken');
+
+/**
+ * Reactive view of a retoken instance
+ */
+export interface UseRetokenReturn {
+  /**
+   * The retoken instance
+   */
+  retoken: RetokenInstance;
+
+  /**
+   * Current auth state
+   */
+  state: Readonly<Ref<AuthState>>;
+
+  /**
+   * Whether an access token is stored or a refresh succeeded
+   * Stays true during a refresh and while offline
+   */
+  isAuthenticated: ComputedRef<boolean>;
+
+  /**
+   * Whether a refresh is in progress in this tab or another tab
+   */
+  isRefreshing: ComputedRef<boolean>;
+
+  /**
+   * Fetch wrapper with automatic token refresh
+   */
+  fetch: RetokenInstance['fetch'];
+
+  /**
+   * Type-safe fetch wrapper that returns parsed JSON
+   */
+  fetchJson: RetokenInstance['fetchJson'];
+}
+
+/**
+ * Create a Vue plugin that provides a retoken instance to `useRetoken`
+ *
+ * @param retoken - Instance to provide
+ * @returns Vue plugin
+ *
+ * @example
+ * ```typescript
+ * app.use(createRetokenPlugin(retoken));
+ * ```
+ */
+export function createRetokenPlugin(retoken: RetokenInstance): Plugin {
+  return {
+    install: (app) => {
+      app.provide(retokenKey, retoken);
+    },
+  };
+}
+
+/**
+ * Composable exposing reactive auth state for a retoken instance
+ * Uses the instance provided by `createRetokenPlugin` if none is passed
+ * The subscription ends when the calling component or effect scope is disposed
+ *
+ * @param instance - Retoken instance (defaults to the provided instance)
+ * @returns Reactive auth state and fetch helpers
+ */
+export function useRetoken(instance?: RetokenInstance): UseRetokenReturn {
+  const retoken = instance ?? inject(retokenKey, null);
+  if (!retoken) {
+    throw new Error('useRetoken requires a retoken instance or createRetokenPlugin');
+  }
+
+  const state = shallowRef(retoken.getState());
+  const unsubscribe = retoken.subscribe((next) => {
+    state.value = next;
+  });
+
+  const authenticated = shallowRef(false);
+  const unsubscribeAuthenticated = subscribeIsAuthenticated(retoken, (next) => {
+    authenticated.value = next;
+  });
+
+  if (getCurrentScope()) {
+    onScopeDispose(() => {
+      unsubscribe();
+      unsubscribeAuthenticated();
+    });
+  }
+
+  return {
+    retoken,
+    state: readonly(state),
+    isAuthenticated: computed(() => authenticated.value),
+    isRefreshing: computed(() => state.value === 'refreshing'),
+    fetch: retoken.fetch,
+    fetchJson: retoken.fetchJson,
+  };
+}
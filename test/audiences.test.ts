@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createAudienceTokens } from '../src/audiences';
+import type { AudienceTokenStore } from '../src/audiences';
+import { RefreshError } from '../src/refresher';
+import type { Refresher } from '../src/refresher';
+
+describe('createAudienceTokens', () => {
+  const createTestAudienceTokens = () => {
+    const stores = new Map<string, AudienceTokenStore>();
+    const createRefresher = vi.fn((audience: string, store: AudienceTokenStore) => {
+      stores.set(audience, store);
+      return {
+        refresh: vi.fn(() => {
+          store.setAccessToken(`${audience}-token`);
+          return Promise.resolve({ accessToken: `${audience}-token`, refreshToken: 'refresh' });
+        }),
+        cancel: vi.fn(),
+      };
+    });
+
+    const audienceTokens = createAudienceTokens({
+      audiences: {
+        orders: { urls: ['https://orders.example.com'] },
+        reports: { urls: ['https://orders.example.com/reports', /reports\.example\.com/] },
+      },
+      createRefresher,
+    });
+
+    return { audienceTokens, createRefresher, stores };
+  };
+
+  it('should resolve the first audience whose URLs match', () => {
+    const { audienceTokens } = createTestAudienceTokens();
+
+    expect(audienceTokens.resolve('https://orders.example.com/reports/1')?.audience).toBe('orders');
+    expect(audienceTokens.resolve('https://reports.example.com/daily')?.audience).toBe('reports');
+    expect(audienceTokens.resolve('/api/users')).toBeNull();
+  });
+
+  it('should create one refresher per audience on first use', () => {
+    const { audienceTokens, createRefresher } = createTestAudienceTokens();
+
+    expect(createRefresher).not.toHaveBeenCalled();
+
+    audienceTokens.resolve('https://orders.example.com/a');
+    audienceTokens.resolve('https://orders.example.com/b');
+
+    expect(createRefresher).toHaveBeenCalledTimes(1);
+    expect(createRefresher).toHaveBeenCalledWith('orders', expect.any(Object));
+  });
+
+  it('should keep access tokens per audience until cleared', async () => {
+    const { audienceTokens } = createTestAudienceTokens();
+    const orders = audienceTokens.resolve('https://orders.example.com')!;
+    const reports = audienceTokens.resolve('https://reports.example.com')!;
+
+    expect(orders.getAccessToken()).toBeNull();
+
+    await orders.refresh();
+
+    expect(orders.getAccessToken()).toBe('orders-token');
+    expect(reports.getAccessToken()).toBeNull();
+
+    audienceTokens.clear();
+
+    expect(orders.getAccessToken()).toBeNull();
+  });
+
+  it('should cancel the refreshes of every audience', () => {
+    const { audienceTokens, createRefresher } = createTestAudienceTokens();
+    audienceTokens.resolve('https://orders.example.com');
+    audienceTokens.resolve('https://reports.example.com');
+    const error = new RefreshError('Logged out', 0);
+
+    audienceTokens.cancel(error);
+
+    expect(createRefresher.mock.results).toHaveLength(2);
+    for (const { value } of createRefresher.mock.results) {
+      expect((value as Refresher).cancel).toHaveBeenCalledWith(error);
+    }
+  });
+});
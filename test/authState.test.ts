@@ -0,0 +1,144 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createAuthStateStore, subscribeIsAuthenticated } from '../src/authState';
+
+describe('createAuthStateStore', () => {
+  it('should start idle when online', () => {
+    const store = createAuthStateStore({ online: true });
+
+    expect(store.getState()).toBe('idle');
+  });
+
+  it('should start offline when the network is unavailable', () => {
+    const store = createAuthStateStore({ online: false });
+
+    expect(store.getState()).toBe('offline');
+    expect(store.getStatus()).toBe('idle');
+  });
+
+  it('should notify listeners with the new and previous state', () => {
+    const store = createAuthStateStore({ online: true });
+    const listener = vi.fn();
+
+    store.subscribe(listener);
+    store.setStatus('refreshing');
+    store.setStatus('authenticated');
+
+    expect(listener).toHaveBeenNthCalledWith(1, 'refreshing', 'idle');
+    expect(listener).toHaveBeenNthCalledWith(2, 'authenticated', 'refreshing');
+  });
+
+  it('should not notify listeners when the state does not change', () => {
+    const store = createAuthStateStore({ online: true });
+    const listener = vi.fn();
+    store.setStatus('authenticated');
+
+    store.subscribe(listener);
+    store.setStatus('authenticated');
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should report offline and restore the latest status when back online', () => {
+    const store = createAuthStateStore({ online: true });
+    const listener = vi.fn();
+    store.setStatus('authenticated');
+    store.subscribe(listener);
+
+    store.setOnline(false);
+    expect(store.getState()).toBe('offline');
+
+    // Status changes while offline are kept but not reported
+    store.setStatus('unauthenticated');
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    store.setOnline(true);
+    expect(store.getState()).toBe('unauthenticated');
+    expect(listener).toHaveBeenLastCalledWith('unauthenticated', 'offline');
+  });
+
+  it('should stop notifying after unsubscribe and destroy', () => {
+    const store = createAuthStateStore({ online: true });
+    const first = vi.fn();
+    const second = vi.fn();
+
+    const unsubscribe = store.subscribe(first);
+    store.subscribe(second);
+    unsubscribe();
+    store.setStatus('refreshing');
+    store.destroy();
+    store.setStatus('authenticated');
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('subscribeIsAuthenticated', () => {
+  const createObserved = (token: string | null = 'access') => {
+    const store = createAuthStateStore({ online: true });
+    const retoken = {
+      getState: store.getState,
+      subscribe: store.subscribe,
+      getAccessToken: () => Promise.resolve(token),
+    };
+    return { store, retoken };
+  };
+
+  it('should stay authenticated during a refresh and while offline', () => {
+    const { store, retoken } = createObserved();
+    store.setStatus('authenticated');
+    const listener = vi.fn();
+
+    subscribeIsAuthenticated(retoken, listener);
+    store.setStatus('refreshing');
+    store.setOnline(false);
+    store.setOnline(true);
+    store.setStatus('authenticated');
+
+    expect(listener.mock.calls).toEqual([[true]]);
+  });
+
+  it('should become unauthenticated when a refresh fails', () => {
+    const { store, retoken } = createObserved();
+    store.setStatus('authenticated');
+    const listener = vi.fn();
+
+    subscribeIsAuthenticated(retoken, listener);
+    store.setStatus('refreshing');
+    store.setStatus('unauthenticated');
+
+    expect(listener.mock.calls).toEqual([[true], [false]]);
+  });
+
+  it('should not become authenticated by a refresh without a stored token', () => {
+    const { store, retoken } = createObserved(null);
+    const listener = vi.fn();
+
+    subscribeIsAuthenticated(retoken, listener);
+    store.setStatus('refreshing');
+
+    expect(listener.mock.calls).toEqual([[false]]);
+  });
+
+  it('should use the stored token when subscribed during a refresh', async () => {
+    const { store, retoken } = createObserved();
+    store.setStatus('refreshing');
+    const listener = vi.fn();
+
+    subscribeIsAuthenticated(retoken, listener);
+    await Promise.resolve();
+
+    expect(listener.mock.calls).toEqual([[false], [true]]);
+  });
+
+  it('should stop notifying after unsubscribe', () => {
+    const { store, retoken } = createObserved();
+    const listener = vi.fn();
+
+    const unsubscribe = subscribeIsAuthenticated(retoken, listener);
+    unsubscribe();
+    store.setStatus('authenticated');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import axios, { AxiosError, AxiosHeaders } from 'axios';
+import type { AxiosAdapter, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { attachRetoken } from '../src/axios';
+import { createRetoken } from '../src/createRetoken';
+import { createMemoryStorage } from '../src/storage';
+import { createMockFetch, createRefreshResponse, setupFetchMock } from './helpers/mockFetch';
+import { createSoonExpiringToken, createValidToken } from './helpers/tokens';
+import type { TokenPlacementConfig } from '../src/types';
+
+describe('attachRetoken', () => {
+  let cleanup: () => void;
+
+  afterEach(() => {
+    cleanup?.();
+  });
+
+  const createTestRetoken = (
+    accessToken: string,
+    refreshFetch: ReturnType<typeof vi.fn>,
+    tokenPlacement?: TokenPlacementConfig
+  ) => {
+    cleanup = setupFetchMock(refreshFetch);
+    const storage = createMemoryStorage({
+      initialTokens: { accessToken, refreshToken: 'refresh' },
+    });
+
+    const retoken = createRetoken({
+      refreshEndpoint: {
+        url: '/api/refresh',
+        parseResponse: (data: { access_token: string; refresh_token: string }) => ({
+          accessToken: data.access_token,
+          refreshToken: data.refresh_token,
+        }),
+      },
+      storage,
+      environment: null,
+      tokenPlacement,
+    });
+
+    return { retoken, storage };
+  };
+
+  // Axios adapter answering with the given statuses in order
+  const createAdapter = (statuses: number[]) => {
+    let index = 0;
+    return vi.fn((config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+      const status = statuses[Math.min(index++, statuses.length - 1)];
+      const response: AxiosResponse = {
+        data: { ok: status < 400 },
+        status,
+        statusText: '',
+        headers: {},
+        config,
+      };
+      if (status >= 400) {
+        return Promise.reject(
+          new AxiosError(
+            `Request failed with status ${status}`,
+            'ERR_BAD_REQUEST',
+            config,
+            null,
+            response
+          )
+        );
+      }
+      return Promise.resolve(response);
+    });
+  };
+
+  const authorizationOf = (adapter: ReturnType<typeof createAdapter>, call: number) => {
+    const config = adapter.mock.calls[call][0];
+    return AxiosHeaders.from(config.headers).get('Authorization');
+  };
+
+  it('should add the Authorization header', async () => {
+    const accessToken = createValidToken();
+    const { retoken } = createTestRetoken(accessToken, createMockFetch());
+    const adapter = createAdapter([200]);
+    const api = axios.create({ adapter: adapter as AxiosAdapter });
+    attachRetoken(api, retoken);
+
+    await api.get('/api/users');
+
+    expect(authorizationOf(adapter, 0)).toBe(`Bearer ${accessToken}`);
+  });
+
+  it('should refresh proactively when the token is expiring soon', async () => {
+    const newAccessToken = createValidToken();
+    const refreshFetch = createMockFetch(createRefreshResponse(newAccessToken, 'new-refresh'));
+    const { retoken } = createTestRetoken(createSoonExpiringToken(), refreshFetch);
+    const adapter = createAdapter([200]);
+    const api = axios.create({ adapter: adapter as AxiosAdapter });
+    attachRetoken(api, retoken);
+
+    await api.get('/api/users');
+
+    expect(refreshFetch).toHaveBeenCalledTimes(1);
+    expect(authorizationOf(adapter, 0)).toBe(`Bearer ${newAccessToken}`);
+  });
+
+  it('should skip proactive refresh when skipProactiveRefresh is set', async () => {
+    const refreshFetch = createMockFetch(createRefreshResponse(createValidToken(), 'new'));
+    const { retoken } = createTestRetoken(createSoonExpiringToken(), refreshFetch);
+    const api = axios.create({ adapter: createAdapter([200]) as AxiosAdapter });
+    attachRetoken(api, retoken);
+
+    await api.get('/api/users', { skipProactiveRefresh: true });
+
+    expect(refreshFetch).not.toHaveBeenCalled();
+  });
+
+  it('should refresh and retry once on 401', async () => {
+    const newAccessToken = createValidToken();
+    const refreshFetch = createMockFetch(createRefreshResponse(newAccessToken, 'new-refresh'));
+    const { retoken } = createTestRetoken(createValidToken(), refreshFetch);
+    const adapter = createAdapter([401, 200]);
+    const api = axios.create({ adapter: adapter as AxiosAdapter });
+    attachRetoken(api, retoken);
+    const requestRetried = vi.fn();
+    retoken.on('requestRetried', requestRetried);
+
+    const response = await api.get('/api/users');
+
+    expect(response.status).toBe(200);
+    expect(adapter).toHaveBeenCalledTimes(2);
+    expect(authorizationOf(adapter, 1)).toBe(`Bearer ${newAccessToken}`);
+    expect(requestRetried).toHaveBeenCalledWith({ url: '/api/users', status: 401 });
+  });
+
+  it('should not retry more than once', async () => {
+    const refreshFetch = createMockFetch(createRefreshResponse(createValidToken(), 'new'));
+    const { retoken } = createTestRetoken(createValidToken(), refreshFetch);
+    const adapter = createAdapter([401]);
+    const api = axios.create({ adapter: adapter as AxiosAdapter });
+    attachRetoken(api, retoken);
+
+    await expect(api.get('/api/users')).rejects.toMatchObject({ response: { status: 401 } });
+    expect(adapter).toHaveBeenCalledTimes(2);
+    expect(refreshFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject with the original error when refresh fails', async () => {
+    const refreshFetch = createMockFetch({ status: 401, ok: false });
+    const { retoken, storage } = createTestRetoken(createValidToken(), refreshFetch);
+    const adapter = createAdapter([401]);
+    const api = axios.create({ adapter: adapter as AxiosAdapter });
+    attachRetoken(api, retoken);
+
+    await expect(api.get('/api/users')).rejects.toBeInstanceOf(AxiosError);
+    expect(adapter).toHaveBeenCalledTimes(1);
+    expect(await storage.getAccessToken()).toBeNull();
+  });
+
+  it('should not retry on statuses outside retryStatuses or with skipRetry', async () => {
+    const refreshFetch = createMockFetch(createRefreshResponse(createValidToken(), 'new'));
+    const { retoken } = createTestRetoken(createValidToken(), refreshFetch);
+    const adapter = createAdapter([500, 401]);
+    const api = axios.create({ adapter: adapter as AxiosAdapter });
+    attachRetoken(api, retoken);
+
+    await expect(api.get('/api/users')).rejects.toMatchObject({ response: { status: 500 } });
+    await expect(api.get('/api/users', { skipRetry: true })).rejects.toMatchObject({
+      response: { status: 401 },
+    });
+    expect(refreshFetch).not.toHaveBeenCalled();
+  });
+
+  it('should send the token as a query parameter when configured', async () => {
+    const accessToken = createValidToken();
+    const { retoken } = createTestRetoken(accessToken, createMockFetch(), { in: 'query' });
+    const adapter = createAdapter([200]);
+    const api = axios.create({ adapter: adapter as AxiosAdapter });
+    attachRetoken(api, retoken);
+
+    await api.get('/api/users', { params: { page: 2 } });
+
+    expect(adapter.mock.calls[0][0].params).toEqual({ page: 2, access_token: accessToken });
+    expect(authorizationOf(adapter, 0)).toBeUndefined();
+  });
+
+  it('should keep the caller Authorization header with skipAuth', async () => {
+    const refreshFetch = createMockFetch();
+    const { retoken } = createTestRetoken(createValidToken(), refreshFetch);
+    const adapter = createAdapter([401]);
+    const api = axios.create({ adapter: adapter as AxiosAdapter });
+    attachRetoken(api, retoken);
+
+    await expect(
+      api.get('/api/users', { headers: { Authorization: 'Basic abc' }, skipAuth: true })
+    ).rejects.toMatchObject({ response: { status: 401 } });
+
+    expect(authorizationOf(adapter, 0)).toBe('Basic abc');
+    expect(refreshFetch).not.toHaveBeenCalled();
+  });
+
+  it('should remove the interceptors when detached', async () => {
+    const { retoken } = createTestRetoken(createValidToken(), createMockFetch());
+    const adapter = createAdapter([200]);
+    const api = axios.create({ adapter: adapter as AxiosAdapter });
+
+    const detach = attachRetoken(api, retoken);
+    detach();
+    await api.get('/api/users');
+
+    expect(authorizationOf(adapter, 0)).toBeUndefined();
+  });
+});
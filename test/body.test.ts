@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { bufferBody } from '../src/body';
+
+const createStream = (...chunks: string[]): ReadableStream<Uint8Array> => {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start: (controller) => {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+      controller.close();
+    },
+  });
+};
+
+describe('bufferBody', () => {
+  it('should pass replayable bodies through', async () => {
+    const formData = new FormData();
+    formData.append('name', 'test');
+
+    for (const body of ['text', new Blob(['blob']), new URLSearchParams('a=1'), formData, null]) {
+      await expect(bufferBody(body, 0)).resolves.toEqual({ body, replayable: true });
+    }
+  });
+
+  it('should buffer a stream within the limit', async () => {
+    const { body, replayable } = await bufferBody(createStream('hello ', 'world'), 1024);
+
+    expect(replayable).toBe(true);
+    expect(body).toBeInstanceOf(Blob);
+    expect(await (body as Blob).text()).toBe('hello world');
+  });
+
+  it('should return a stream with the full body beyond the limit', async () => {
+    const { body, replayable } = await bufferBody(createStream('hello ', 'world'), 3);
+
+    expect(replayable).toBe(false);
+    expect(body).toBeInstanceOf(ReadableStream);
+    expect(await new Response(body).text()).toBe('hello world');
+  });
+});
@@ -1,13 +1,37 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { createRetoken } from '../src/createRetoken';
-import { FetchError } from '../src/refresher';
+import {
+  FetchError,
+  NonReplayableBodyError,
+  RefreshError,
+  RevocationError,
+} from '../src/refresher';
 import {
   createMockFetch,
+  createMockResponse,
   createSequentialMockFetch,
   setupFetchMock,
   createRefreshResponse,
 } from './helpers/mockFetch';
-import { createValidToken, createSoonExpiringToken, createToken } from './helpers/tokens';
+import { parseTokenExpiration } from '../src/jwt';
+import {
+  createExpiredToken,
+  createValidToken,
+  createSoonExpiringToken,
+  createToken,
+  createTokenWithOffset,
+} from './helpers/tokens';
+import { createMockLockProvider } from './helpers/lock';
+import { createMockEnvironment } from './helpers/environment';
+import { createMemoryStorage } from '../src/storage';
+import { createOAuthRefreshEndpoint } from '../src/oauth';
+import type {
+  AudienceConfig,
+  Middleware,
+  RevocationEndpointConfig,
+  TokenPlacementConfig,
+  UrlScopeConfig,
+} from '../src/types';
 
 describe('createRetoken', () => {
   let cleanup: () => void;
@@ -21,7 +45,18 @@ describe('createRetoken', () => {
       expirationLeeway?: number;
       retryStatuses?: number[];
       crossTabEnabled?: boolean;
+      crossTabRefreshTimeout?: number;
+      leaderElectionEnabled?: boolean;
+      backgroundRefreshEnabled?: boolean;
+      environment?: ReturnType<typeof createMockEnvironment>;
+      middleware?: Middleware[];
+      retryBodyLimit?: number;
+      urlScope?: UrlScopeConfig;
+      tokenPlacement?: TokenPlacementConfig;
+      audiences?: Record<string, AudienceConfig>;
+      revocationEndpoint?: RevocationEndpointConfig;
       onAuthFailure?: () => void;
+      onLogout?: () => void;
       onTokenRefresh?: (tokens: { accessToken: string; refreshToken: string }) => void;
     } = {}
   ) => {
@@ -34,6 +69,7 @@ describe('createRetoken', () => {
 
     const onAuthFailure = options.onAuthFailure ?? vi.fn();
     const onTokenRefresh = options.onTokenRefresh ?? vi.fn();
+    const onLogout = options.onLogout ?? vi.fn();
 
     const retoken = createRetoken<{ access_token: string; refresh_token: string }>({
       refreshEndpoint: {
@@ -55,12 +91,29 @@ describe('createRetoken', () => {
       },
       expirationLeeway: options.expirationLeeway ?? 60,
       retryStatuses: options.retryStatuses ?? [401],
-      crossTab: { enabled: options.crossTabEnabled ?? false },
+      crossTab: {
+        enabled: options.crossTabEnabled ?? false,
+        refreshTimeout: options.crossTabRefreshTimeout,
+        leaderElection: {
+          enabled: options.leaderElectionEnabled ?? false,
+          heartbeatInterval: 1000,
+          leaderTimeout: 3000,
+        },
+      },
+      backgroundRefresh: { enabled: options.backgroundRefreshEnabled ?? false },
+      environment: options.environment,
+      middleware: options.middleware,
+      retryBodyLimit: options.retryBodyLimit,
+      urlScope: options.urlScope,
+      tokenPlacement: options.tokenPlacement,
+      audiences: options.audiences,
+      revocationEndpoint: options.revocationEndpoint,
       onAuthFailure,
       onTokenRefresh,
+      onLogout,
     });
 
-    return { retoken, onAuthFailure, onTokenRefresh };
+    return { retoken, onAuthFailure, onTokenRefresh, onLogout };
   };
 
   beforeEach(() => {
@@ -72,6 +125,92 @@ describe('createRetoken', () => {
     cleanup?.();
   });
 
+  describe('token storage', () => {
+    const refreshEndpoint = {
+      url: '/api/refresh',
+      parseResponse: (data: { access_token: string; refresh_token: string }) => ({
+        accessToken: data.access_token,
+        refreshToken: data.refresh_token,
+      }),
+    };
+
+    it('should use a storage adapter in place of the token callbacks', async () => {
+      const newAccessToken = createValidToken();
+      const mockFetch = createSequentialMockFetch([
+        { status: 401, ok: false },
+        createRefreshResponse(newAccessToken, 'new-refresh'),
+        { status: 200 },
+      ]);
+      cleanup = setupFetchMock(mockFetch);
+      const storage = createMemoryStorage({
+        initialTokens: { accessToken: createValidToken(), refreshToken: 'old-refresh' },
+      });
+
+      const retoken = createRetoken({ refreshEndpoint, storage });
+      await retoken.fetch('/api/users');
+
+      expect(mockFetch.mock.calls[1][1]).toEqual(
+        expect.objectContaining({ body: JSON.stringify({ refresh_token: 'old-refresh' }) })
+      );
+      expect(storage.getAccessToken()).toBe(newAccessToken);
+      expect(storage.getRefreshToken?.()).toBe('new-refresh');
+    });
+
+    it('should prefer individual callbacks over the storage adapter', async () => {
+      const mockFetch = createMockFetch({ status: 200 });
+      cleanup = setupFetchMock(mockFetch);
+      const accessToken = createValidToken();
+
+      const retoken = createRetoken({
+        refreshEndpoint,
+        storage: createMemoryStorage(),
+        getAccessToken: () => accessToken,
+      });
+      await retoken.fetch('/api/users');
+
+      const headers = (mockFetch.mock.calls[0][1] as RequestInit).headers as Headers;
+      expect(headers.get('Authorization')).toBe(`Bearer ${accessToken}`);
+    });
+
+    it('should support async token callbacks', async () => {
+      const newAccessToken = createValidToken();
+      const mockFetch = createSequentialMockFetch([
+        createRefreshResponse(newAccessToken, 'new-refresh'),
+        { status: 200 },
+      ]);
+      cleanup = setupFetchMock(mockFetch);
+      const store = { accessToken: createSoonExpiringToken(60), refreshToken: 'old-refresh' };
+
+      const retoken = createRetoken({
+        refreshEndpoint,
+        getAccessToken: () => Promise.resolve(store.accessToken),
+        getRefreshToken: () => Promise.resolve(store.refreshToken),
+        setTokens: async (tokens) => {
+          await Promise.resolve();
+          store.accessToken = tokens.accessToken;
+          store.refreshToken = tokens.refreshToken;
+        },
+        clearTokens: () => Promise.resolve(),
+      });
+
+      expect(await retoken.isTokenExpiringSoonAsync()).toBe(true);
+      await retoken.fetch('/api/users');
+
+      const headers = (mockFetch.mock.calls[1][1] as RequestInit).headers as Headers;
+      expect(headers.get('Authorization')).toBe(`Bearer ${newAccessToken}`);
+      expect(await retoken.isTokenExpiringSoonAsync()).toBe(false);
+      expect(() => retoken.isTokenExpiringSoon()).toThrow(
+        'isTokenExpiringSoon() requires synchronous token functions'
+      );
+    });
+
+    it('should throw without storage or token callbacks', () => {
+      expect(() => createRetoken({ refreshEndpoint, getAccessToken: () => null })).toThrow(
+        'createRetoken requires either storage or getAccessToken, setTokens and clearTokens'
+      );
+    });
+  });
+
   describe('fetch wrapper', () => {
     it('should add Authorization header to requests', async () => {
       const accessToken = createValidToken();
@@ -139,6 +278,79 @@ describe('createRetoken', () => {
         })
       );
     });
+    it('should accept a URL', async () => {
+      const mockFetch = createMockFetch({ status: 200 });
+
+      const { retoken } = createTestRetoken(mockFetch);
+
+      await retoken.fetch(new URL('https://api.example.com/users'));
+
+      expect(mockFetch.mock.calls[0][0]).toBe('https://api.example.com/users');
+    });
+
+    it('should accept Headers and header tuples', async () => {
+      const accessToken = createValidToken();
+      const mockFetch = createMockFetch({ status: 200 });
+
+      const { retoken } = createTestRetoken(mockFetch, { accessToken });
+
+      await retoken.fetch('/api/users', { headers: new Headers({ 'X-Custom': 'value' }) });
+      await retoken.fetch('/api/users', { headers: [['X-Other', 'other']] });
+
+      const first = (mockFetch.mock.calls[0][1] as RequestInit).headers as Headers;
+      const second = (mockFetch.mock.calls[1][1] as RequestInit).headers as Headers;
+      expect(first.get('X-Custom')).toBe('value');
+      expect(first.get('Authorization')).toBe(`Bearer ${accessToken}`);
+      expect(second.get('X-Other')).toBe('other');
+    });
+
+    it('should send a Request with its method, headers and body', async () => {
+      const accessToken = createValidToken();
+      const mockFetch = createMockFetch({ status: 200 });
+
+      const { retoken } = createTestRetoken(mockFetch, { accessToken });
+
+      await retoken.fetch(
+        new Request('https://api.example.com/users', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name: 'test' }),
+        })
+      );
+
+      const [url, init] = mockFetch.mock.calls[0] as [string, RequestInit];
+      const headers = init.headers as Headers;
+      expect(url).toBe('https://api.example.com/users');
+      expect(init.method).toBe('POST');
+      expect(headers.get('Content-Type')).toBe('application/json');
+      expect(headers.get('Authorization')).toBe(`Bearer ${accessToken}`);
+      expect(await (init.body as Blob).text()).toBe(JSON.stringify({ name: 'test' }));
+    });
+
+    it('should let options override the Request, as fetch does', async () => {
+      const mockFetch = createMockFetch({ status: 200 });
+
+      const { retoken } = createTestRetoken(mockFetch);
+
+      await retoken.fetch(
+        new Request('https://api.example.com/users', { headers: { 'X-Request': 'request' } }),
+        { method: 'DELETE', headers: { 'X-Options': 'options' } }
+      );
+
+      const init = mockFetch.mock.calls[0][1] as RequestInit;
+      const headers = init.headers as Headers;
+      expect(init.method).toBe('DELETE');
+      expect(headers.get('X-Request')).toBeNull();
+      expect(headers.get('X-Options')).toBe('options');
+    });
+
+    it('should be usable in place of fetch', () => {
+      const { retoken } = createTestRetoken(createMockFetch());
+
+      const fetchLike: typeof fetch = retoken.fetch;
+
+      expect(fetchLike).toBe(retoken.fetch);
+    });
   });
 
   describe('proactive refresh', () => {
@@ -195,6 +407,61 @@ describe('createRetoken', () => {
       expect(mockFetch.mock.calls[0][0]).toBe('/api/users');
     });
 
+    it('should use the stored expiration for tokens that are not JWTs', async () => {
+      const mockFetch = createMockFetch({ status: 200 });
+      cleanup = setupFetchMock(mockFetch);
+      const retoken = createRetoken({
+        refreshEndpoint: { url: '/api/refresh', parseResponse: vi.fn() },
+        storage: createMemoryStorage({
+          initialTokens: {
+            accessToken: 'opaque-token',
+            refreshToken: 'refresh',
+            expiresAt: Date.now() + 3600 * 1000,
+          },
+        }),
+        environment: null,
+      });
+
+      await retoken.fetch('/api/users');
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(retoken.isTokenExpiringSoon()).toBe(false);
+    });
+
+    it('should refresh an opaque token only once with expiresIn', async () => {
+      const mockFetch = createSequentialMockFetch([
+        { status: 200, body: { access_token: 'new-opaque-token', expires_in: 3600 } },
+        { status: 200 },
+      ]);
+      cleanup = setupFetchMock(mockFetch);
+      const storage = createMemoryStorage({
+        initialTokens: { accessToken: 'opaque-token', refreshToken: 'refresh' },
+      });
+      const retoken = createRetoken({
+        refreshEndpoint: {
+          url: '/api/refresh',
+          parseResponse: (data: { access_token: string; expires_in: number }) => ({
+            accessToken: data.access_token,
+            refreshToken: '',
+            expiresIn: data.expires_in,
+          }),
+        },
+        storage,
+        environment: null,
+      });
+
+      await retoken.fetch('/api/users');
+      await retoken.fetch('/api/users');
+
+      expect(mockFetch.mock.calls.map(([url]) => url as string)).toEqual([
+        '/api/refresh',
+        '/api/users',
+        '/api/users',
+      ]);
+      expect(storage.getRefreshToken?.()).toBe('refresh');
+      expect(storage.getExpiresAt?.()).toBe(Date.now() + 3600 * 1000);
+    });
+
     it('should continue request even if proactive refresh fails', async () => {
       const soonExpiringToken = createSoonExpiringToken(60);
 
@@ -234,6 +501,85 @@ describe('createRetoken', () => {
       expect(mockFetch).toHaveBeenCalledTimes(3);
     });
 
+    it('should resend the body of a Request after refresh', async () => {
+      const newAccessToken = createValidToken();
+      const mockFetch = createSequentialMockFetch([
+        { status: 401, ok: false },
+        createRefreshResponse(newAccessToken, createValidToken()),
+        { status: 200 },
+      ]);
+
+      const { retoken } = createTestRetoken(mockFetch);
+
+      const response = await retoken.fetch(
+        new Request('https://api.example.com/users', { method: 'POST', body: 'payload' })
+      );
+
+      const retry = mockFetch.mock.calls[2][1] as RequestInit;
+      expect(response.status).toBe(200);
+      expect((retry.headers as Headers).get('Authorization')).toBe(`Bearer ${newAccessToken}`);
+      expect(await (retry.body as Blob).text()).toBe('payload');
+    });
+
+    it('should resend a streamed body within retryBodyLimit', async () => {
+      const mockFetch = createSequentialMockFetch([
+        { status: 401, ok: false },
+        createRefreshResponse(createValidToken(), createValidToken()),
+        { status: 200 },
+      ]);
+
+      const { retoken } = createTestRetoken(mockFetch);
+
+      const response = await retoken.fetch('/api/upload', {
+        method: 'POST',
+        body: new Blob(['payload']).stream(),
+      });
+
+      expect(response.status).toBe(200);
+      const [first, retry] = [
+        mockFetch.mock.calls[0][1],
+        mockFetch.mock.calls[2][1],
+      ] as RequestInit[];
+      expect(await (first.body as Blob).text()).toBe('payload');
+      expect(await (retry.body as Blob).text()).toBe('payload');
+    });
+
+    it('should resend FormData after refresh', async () => {
+      const mockFetch = createSequentialMockFetch([
+        { status: 401, ok: false },
+        createRefreshResponse(createValidToken(), createValidToken()),
+        { status: 200 },
+      ]);
+      const formData = new FormData();
+      formData.append('file', new Blob(['content']), 'file.txt');
+
+      const { retoken } = createTestRetoken(mockFetch);
+
+      await retoken.fetch('/api/upload', { method: 'POST', body: formData });
+
+      expect((mockFetch.mock.calls[2][1] as RequestInit).body).toBe(formData);
+    });
+
+    it('should throw NonReplayableBodyError for a stream beyond retryBodyLimit', async () => {
+      const newAccessToken = createValidToken();
+      const mockFetch = createSequentialMockFetch([
+        { status: 401, ok: false },
+        createRefreshResponse(newAccessToken, createValidToken()),
+      ]);
+
+      const { retoken } = createTestRetoken(mockFetch, { retryBodyLimit: 4 });
+
+      const error: unknown = await retoken
+        .fetch('/api/upload', { method: 'POST', body: new Blob(['payload']).stream() })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(NonReplayableBodyError);
+      expect((error as NonReplayableBodyError).status).toBe(401);
+      expect(mockFetch.mock.calls[0][1]).toMatchObject({ duplex: 'half' });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(tokenStore.accessToken).toBe(newAccessToken);
+    });
+
     it('should skip retry when skipRetry is true', async () => {
       const accessToken = createValidToken();
       const mockFetch = createMockFetch({ status: 401, ok: false });
@@ -283,131 +629,1401 @@ describe('createRetoken', () => {
     });
   });
 
-  describe('fetchJson', () => {
-    it('should return parsed JSON on success', async () => {
-      const mockFetch = createMockFetch({
-        status: 200,
-        body: { id: 1, name: 'Test User' },
+  describe('audiences', () => {
+    const audiences = {
+      orders: { urls: ['https://orders.example.com'] },
+      billing: { urls: ['https://billing.example.com'] },
+    };
+
+    // Refresh endpoint issuing a distinct access token per refresh, recorded by audience
+    const createAudienceFetch = (apiStatuses: number[] = [200]) => {
+      const issued: { audience: string | undefined; accessToken: string }[] = [];
+      let apiCall = 0;
+
+      const mockFetch = vi.fn((url: string, init?: RequestInit) => {
+        if (url === '/api/refresh') {
+          const { audience } = JSON.parse(init?.body as string) as { audience?: string };
+          const accessToken = createTokenWithOffset(3600 + issued.length);
+          issued.push({ audience, accessToken });
+          return Promise.resolve(
+            createMockResponse(createRefreshResponse(accessToken, tokenStore.refreshToken ?? ''))
+          );
+        }
+
+        const status = apiStatuses[Math.min(apiCall++, apiStatuses.length - 1)];
+        return Promise.resolve(createMockResponse({ status }));
       });
 
-      const { retoken } = createTestRetoken(mockFetch);
+      return { mockFetch, issued };
+    };
 
-      const result = await retoken.fetchJson<{ id: number; name: string }>('/api/users/1');
+    const authorizationOf = (mockFetch: ReturnType<typeof vi.fn>, url: string) =>
+      mockFetch.mock.calls
+        .filter(([callUrl]) => callUrl === url)
+        .map(([, init]) => ((init as RequestInit).headers as Headers).get('Authorization'));
 
-      expect(result).toEqual({ id: 1, name: 'Test User' });
+    it('should fetch and use a separate access token per audience', async () => {
+      const accessToken = createValidToken();
+      const { mockFetch, issued } = createAudienceFetch();
+
+      const { retoken } = createTestRetoken(mockFetch, { accessToken, audiences });
+
+      await retoken.fetch('https://orders.example.com/orders');
+      await retoken.fetch('https://billing.example.com/invoices');
+      await retoken.fetch('https://orders.example.com/orders');
+      await retoken.fetch('/api/users');
+
+      expect(issued.map(({ audience }) => audience)).toEqual(['orders', 'billing']);
+      expect(authorizationOf(mockFetch, 'https://orders.example.com/orders')).toEqual([
+        `Bearer ${issued[0].accessToken}`,
+        `Bearer ${issued[0].accessToken}`,
+      ]);
+      expect(authorizationOf(mockFetch, 'https://billing.example.com/invoices')).toEqual([
+        `Bearer ${issued[1].accessToken}`,
+      ]);
+      expect(authorizationOf(mockFetch, '/api/users')).toEqual([`Bearer ${accessToken}`]);
+      expect(tokenStore.accessToken).toBe(accessToken);
     });
 
-    it('should handle 201 status by default', async () => {
-      const mockFetch = createMockFetch({
-        status: 201,
-        body: { id: 2, name: 'New User' },
-      });
+    it('should send the refresh token and audience to the refresh endpoint', async () => {
+      const { mockFetch } = createAudienceFetch();
 
-      const { retoken } = createTestRetoken(mockFetch);
+      const { retoken } = createTestRetoken(mockFetch, { audiences });
+      await retoken.fetch('https://orders.example.com/orders');
 
-      const result = await retoken.fetchJson('/api/users', { method: 'POST' });
+      expect(mockFetch).toHaveBeenCalledWith(
+        '/api/refresh',
+        expect.objectContaining({
+          body: JSON.stringify({ refresh_token: tokenStore.refreshToken, audience: 'orders' }),
+        })
+      );
+    });
 
-      expect(result).toEqual({ id: 2, name: 'New User' });
+    it('should deduplicate refreshes per audience', async () => {
+      const { mockFetch, issued } = createAudienceFetch();
+
+      const { retoken } = createTestRetoken(mockFetch, { audiences });
+
+      await Promise.all([
+        retoken.fetch('https://orders.example.com/a'),
+        retoken.fetch('https://orders.example.com/b'),
+        retoken.fetch('https://billing.example.com/c'),
+      ]);
+
+      expect(issued.map(({ audience }) => audience).sort()).toEqual(['billing', 'orders']);
     });
 
-    it('should handle 204 No Content', async () => {
-      const mockFetch = createMockFetch({ status: 204 });
+    it('should refresh only the audience token on 401', async () => {
+      const accessToken = createValidToken();
+      const { mockFetch, issued } = createAudienceFetch([200, 401, 200]);
 
-      const { retoken } = createTestRetoken(mockFetch, {
-        accessToken: createValidToken(),
-      });
+      const { retoken } = createTestRetoken(mockFetch, { accessToken, audiences });
 
-      const result = await retoken.fetchJson('/api/users/1', {
-        method: 'DELETE',
-        expectedStatuses: [200, 201, 204],
-      });
+      await retoken.fetch('https://orders.example.com/orders');
+      const response = await retoken.fetch('https://orders.example.com/orders');
 
-      expect(result).toBeNull();
+      expect(response.status).toBe(200);
+      expect(issued.map(({ audience }) => audience)).toEqual(['orders', 'orders']);
+      expect(authorizationOf(mockFetch, 'https://orders.example.com/orders').at(-1)).toBe(
+        `Bearer ${issued[1].accessToken}`
+      );
+      expect(tokenStore.accessToken).toBe(accessToken);
     });
 
-    it('should throw FetchError on unexpected status', async () => {
-      const mockFetch = createMockFetch({
-        status: 404,
-        ok: false,
-        body: { error: 'Not found' },
+    it('should store a rotated refresh token without replacing the main access token', async () => {
+      const accessToken = createValidToken();
+      const newRefreshToken = createTokenWithOffset(7200);
+      const mockFetch = createSequentialMockFetch([
+        createRefreshResponse(createValidToken(), newRefreshToken),
+        { status: 200 },
+      ]);
+
+      const { retoken } = createTestRetoken(mockFetch, { accessToken, audiences });
+      await retoken.fetch('https://orders.example.com/orders');
+
+      expect(tokenStore).toEqual({ accessToken, refreshToken: newRefreshToken });
+    });
+
+    it('should refresh the audience token with the refresh token a main refresh rotated', async () => {
+      let rotations = 0;
+      const mockFetch = vi.fn((url: string) => {
+        if (url === '/api/refresh') {
+          rotations++;
+          return Promise.resolve(
+            createMockResponse(createRefreshResponse(createValidToken(), `refresh-${rotations}`))
+          );
+        }
+        return Promise.resolve(createMockResponse({ status: 200 }));
       });
 
-      const { retoken } = createTestRetoken(mockFetch);
+      const { retoken } = createTestRetoken(mockFetch, { refreshToken: 'refresh-0', audiences });
 
-      await expect(retoken.fetchJson('/api/users/999')).rejects.toThrow(FetchError);
+      await Promise.all([retoken.refreshToken(), retoken.fetch('https://orders.example.com/a')]);
 
-      try {
-        await retoken.fetchJson('/api/users/999');
-      } catch (error) {
-        expect(error).toBeInstanceOf(FetchError);
-        expect((error as FetchError).status).toBe(404);
-        expect((error as FetchError).body).toEqual({ error: 'Not found' });
-      }
+      const refreshTokensSent = mockFetch.mock.calls
+        .filter(([url]) => url === '/api/refresh')
+        .map(
+          ([, init]) =>
+            (JSON.parse(init?.body as string) as { refresh_token: string }).refresh_token
+        );
+      expect(refreshTokensSent).toEqual(['refresh-0', 'refresh-1']);
+      expect(tokenStore.refreshToken).toBe('refresh-2');
     });
 
-    it('should use custom expectedStatuses', async () => {
-      const mockFetch = createMockFetch({
-        status: 202,
-        body: { status: 'accepted' },
-      });
+    it('should log out and clear audience tokens when the refresh token is rejected', async () => {
+      const { mockFetch } = createAudienceFetch();
+      const onAuthFailure = vi.fn();
 
-      const { retoken } = createTestRetoken(mockFetch);
+      const { retoken } = createTestRetoken(mockFetch, { audiences, onAuthFailure });
+      await retoken.fetch('https://orders.example.com/orders');
 
-      const result = await retoken.fetchJson('/api/jobs', {
-        method: 'POST',
-        expectedStatuses: [200, 202],
-      });
+      mockFetch.mockImplementation(() => Promise.resolve(createMockResponse({ status: 401 })));
+      await retoken.fetch('https://billing.example.com/invoices');
 
-      expect(result).toEqual({ status: 'accepted' });
+      expect(onAuthFailure).toHaveBeenCalled();
+      expect(tokenStore.refreshToken).toBeNull();
+      await expect(retoken.getRequestAuth('https://orders.example.com/orders')).resolves.toEqual({
+        headers: {},
+        query: {},
+      });
     });
   });
 
-  describe('utility methods', () => {
-    it('isTokenExpiringSoon should check current token', () => {
-      const soonExpiringToken = createSoonExpiringToken(60);
+  describe('token placement', () => {
+    it('should use the configured header name and scheme', async () => {
+      const accessToken = createValidToken();
       const mockFetch = createMockFetch({ status: 200 });
 
       const { retoken } = createTestRetoken(mockFetch, {
-        accessToken: soonExpiringToken,
-        expirationLeeway: 60,
+        accessToken,
+        tokenPlacement: { name: 'X-Access-Token', scheme: 'Token' },
       });
 
-      expect(retoken.isTokenExpiringSoon()).toBe(true);
+      await retoken.fetch('/api/users');
+
+      const headers = (mockFetch.mock.calls[0][1] as RequestInit).headers as Headers;
+      expect(headers.get('X-Access-Token')).toBe(`Token ${accessToken}`);
+      expect(headers.get('Authorization')).toBeNull();
     });
 
-    it('isTokenExpiringSoon should return false for valid token', () => {
-      const validToken = createValidToken();
-      const mockFetch = createMockFetch({ status: 200 });
+    it('should send the token in the query and update it on retry', async () => {
+      const accessToken = createValidToken();
+      const newAccessToken = createValidToken();
+      const mockFetch = createSequentialMockFetch([
+        { status: 401, ok: false },
+        createRefreshResponse(newAccessToken, createValidToken()),
+        { status: 200 },
+      ]);
+      const onRetried = vi.fn();
 
-      const { retoken } = createTestRetoken(mockFetch, { accessToken: validToken });
+      const { retoken } = createTestRetoken(mockFetch, {
+        accessToken,
+        tokenPlacement: { in: 'query', name: 'token' },
+      });
+      retoken.on('requestRetried', onRetried);
 
-      expect(retoken.isTokenExpiringSoon()).toBe(false);
+      await retoken.fetch('/api/users?page=2');
+
+      expect(mockFetch.mock.calls[0][0]).toBe(`/api/users?page=2&token=${accessToken}`);
+      expect(mockFetch.mock.calls[2][0]).toBe(`/api/users?page=2&token=${newAccessToken}`);
+      expect(onRetried).toHaveBeenCalledWith({ url: '/api/users?page=2', status: 401 });
     });
 
-    it('parseTokenExpiration should parse token', () => {
-      const mockFetch = createMockFetch({ status: 200 });
-      const { retoken } = createTestRetoken(mockFetch);
+    it('should keep the caller Authorization header with skipAuth', async () => {
+      const mockFetch = createMockFetch({ status: 401, ok: false });
 
-      const expSeconds = 1700000000;
+      const { retoken } = createTestRetoken(mockFetch, { accessToken: createSoonExpiringToken() });
+
+      const response = await retoken.fetch('/api/webhooks', {
+        headers: { Authorization: 'Basic dXNlcjpwYXNz' },
+        skipAuth: true,
+      });
+
+      const headers = (mockFetch.mock.calls[0][1] as RequestInit).headers as Headers;
+      expect(headers.get('Authorization')).toBe('Basic dXNlcjpwYXNz');
+      expect(response.status).toBe(401);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should expose the request auth', async () => {
+      const accessToken = createValidToken();
+
+      const { retoken } = createTestRetoken(createMockFetch(), {
+        accessToken,
+        tokenPlacement: { in: 'query' },
+      });
+
+      await expect(retoken.getRequestAuth()).resolves.toEqual({
+        headers: {},
+        query: { access_token: accessToken },
+      });
+    });
+  });
+
+  describe('URL scope', () => {
+    const urlScope = { allow: ['/api'], deny: ['/api/public'] };
+
+    it('should attach the token only to URLs in scope', async () => {
+      const accessToken = createValidToken();
+      const mockFetch = createMockFetch({ status: 200 });
+
+      const { retoken } = createTestRetoken(mockFetch, { accessToken, urlScope });
+
+      await retoken.fetch('/api/users');
+      await retoken.fetch('/api/public/config');
+      await retoken.fetch('https://third-party.example.com/api/users');
+
+      const authorization = (call: number) =>
+        ((mockFetch.mock.calls[call][1] as RequestInit).headers as Headers).get('Authorization');
+      expect(authorization(0)).toBe(`Bearer ${accessToken}`);
+      expect(authorization(1)).toBeNull();
+      expect(authorization(2)).toBeNull();
+    });
+
+    it('should not refresh proactively for URLs out of scope', async () => {
+      const mockFetch = createMockFetch({ status: 200 });
+
+      const { retoken } = createTestRetoken(mockFetch, {
+        accessToken: createSoonExpiringToken(),
+        urlScope,
+      });
+
+      await retoken.fetch('https://third-party.example.com/data');
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not refresh and retry for URLs out of scope', async () => {
+      const mockFetch = createMockFetch({ status: 401, ok: false });
+
+      const { retoken } = createTestRetoken(mockFetch, { urlScope });
+
+      const response = await retoken.fetch('https://third-party.example.com/data');
+
+      expect(response.status).toBe(401);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      await expect(retoken.refreshForRetry(401, '/api/public/config')).resolves.toBe(false);
+    });
+
+    it('should expose the scope check', () => {
+      const { retoken } = createTestRetoken(createMockFetch(), { urlScope });
+
+      expect(retoken.isUrlInScope('/api/users')).toBe(true);
+      expect(retoken.isUrlInScope('/api/public')).toBe(false);
+    });
+  });
+
+  describe('custom fetch', () => {
+    const createRetokenWithFetch = (
+      fetch: ReturnType<typeof vi.fn>,
+      endpointFetch?: ReturnType<typeof vi.fn>
+    ) =>
+      createRetoken({
+        refreshEndpoint: {
+          url: '/api/refresh',
+          parseResponse: (data: { access_token: string; refresh_token: string }) => ({
+            accessToken: data.access_token,
+            refreshToken: data.refresh_token,
+          }),
+          fetch: endpointFetch,
+        },
+        storage: createMemoryStorage({
+          initialTokens: { accessToken: createValidToken(), refreshToken: 'refresh' },
+        }),
+        environment: null,
+        fetch,
+      });
+
+    it('should use the configured fetch for requests and the refresh', async () => {
+      const globalFetch = createMockFetch();
+      cleanup = setupFetchMock(globalFetch);
+      const customFetch = createSequentialMockFetch([
+        { status: 401 },
+        createRefreshResponse(createValidToken(), 'new-refresh'),
+        { status: 200 },
+      ]);
+
+      const response = await createRetokenWithFetch(customFetch).fetch('/api/users');
+
+      expect(response.status).toBe(200);
+      expect(customFetch).toHaveBeenCalledTimes(3);
+      expect(customFetch.mock.calls[1][0]).toBe('/api/refresh');
+      expect(globalFetch).not.toHaveBeenCalled();
+    });
+
+    it('should use the fetch of the refresh endpoint for the refresh only', async () => {
+      const customFetch = createSequentialMockFetch([{ status: 401 }, { status: 200 }]);
+      const endpointFetch = createMockFetch(createRefreshResponse(createValidToken(), 'new'));
+
+      await createRetokenWithFetch(customFetch, endpointFetch).fetch('/api/users');
+
+      expect(customFetch).toHaveBeenCalledTimes(2);
+      expect(endpointFetch).toHaveBeenCalledWith('/api/refresh', expect.any(Object));
+    });
+
+    it('should use the configured fetch for OpenID Connect discovery', async () => {
+      const globalFetch = createMockFetch();
+      cleanup = setupFetchMock(globalFetch);
+      const customFetch = createSequentialMockFetch([
+        { body: { issuer: 'https://auth.test', token_endpoint: 'https://auth.test/token' } },
+        { body: { access_token: createValidToken(), token_type: 'Bearer' } },
+      ]);
+      const retoken = createRetoken({
+        refreshEndpoint: createOAuthRefreshEndpoint({
+          issuer: 'https://auth.test',
+          clientId: 'my-app',
+        }),
+        storage: createMemoryStorage({
+          initialTokens: { accessToken: createValidToken(), refreshToken: 'refresh' },
+        }),
+        environment: null,
+        fetch: customFetch,
+      });
+
+      await retoken.refreshToken();
+
+      expect(customFetch.mock.calls.map(([url]) => url as string)).toEqual([
+        'https://auth.test/.well-known/openid-configuration',
+        'https://auth.test/token',
+      ]);
+      expect(globalFetch).not.toHaveBeenCalled();
+    });
+
+    it('should look up the global fetch on every request by default', async () => {
+      const retoken = createRetoken({
+        refreshEndpoint: {
+          url: '/api/refresh',
+          parseResponse: () => ({ accessToken: '', refreshToken: '' }),
+        },
+        storage: createMemoryStorage(),
+        environment: null,
+      });
+      const mockFetch = createMockFetch();
+      cleanup = setupFetchMock(mockFetch);
+
+      await retoken.fetch('/api/public', { skipProactiveRefresh: true });
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('middleware', () => {
+    it('should send requests through middleware with the Authorization header', async () => {
+      const accessToken = createValidToken();
+      const mockFetch = createMockFetch({ status: 200 });
+      const seen: string[] = [];
+      const middleware: Middleware = (request, next) => {
+        seen.push(request.init.headers.get('Authorization') ?? '');
+        request.init.headers.set('X-Trace-Id', 'trace-1');
+        return next(request);
+      };
+
+      const { retoken } = createTestRetoken(mockFetch, { accessToken, middleware: [middleware] });
+      await retoken.fetch('/api/users');
+
+      expect(seen).toEqual([`Bearer ${accessToken}`]);
+      const headers = (mockFetch.mock.calls[0][1] as RequestInit).headers as Headers;
+      expect(headers.get('X-Trace-Id')).toBe('trace-1');
+    });
+
+    it('should run middleware for the retry but not for the refresh request', async () => {
+      const newAccessToken = createValidToken();
+      const mockFetch = createSequentialMockFetch([
+        { status: 401, ok: false },
+        createRefreshResponse(newAccessToken, createValidToken()),
+        { status: 200 },
+      ]);
+      const requests: { url: string; isRetry: boolean; authorization: string | null }[] = [];
+      const middleware: Middleware = (request, next) => {
+        requests.push({
+          url: request.url,
+          isRetry: request.isRetry,
+          authorization: request.init.headers.get('Authorization'),
+        });
+        return next(request);
+      };
+
+      const { retoken } = createTestRetoken(mockFetch, { middleware: [middleware] });
+      await retoken.fetch('/api/users');
+
+      expect(requests).toEqual([
+        { url: '/api/users', isRetry: false, authorization: expect.any(String) as unknown },
+        { url: '/api/users', isRetry: true, authorization: `Bearer ${newAccessToken}` },
+      ]);
+    });
+
+    it('should check retry statuses on the response returned by middleware', async () => {
+      const mockFetch = createMockFetch({ status: 200 });
+      const middleware: Middleware = async (request, next) => {
+        const response = await next(request);
+        return request.isRetry ? response : new Response(null, { status: 401 });
+      };
+
+      const { retoken } = createTestRetoken(mockFetch, { middleware: [middleware] });
+      mockFetch.mockResolvedValueOnce(new Response(null, { status: 200 }));
+      mockFetch.mockResolvedValueOnce(
+        new Response(JSON.stringify({ access_token: 'new', refresh_token: 'new' }))
+      );
+      const response = await retoken.fetch('/api/users');
+
+      expect(response.status).toBe(200);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(tokenStore.accessToken).toBe('new');
+    });
+
+    it('should apply middleware to fetchJson responses', async () => {
+      const mockFetch = createMockFetch({ status: 200, body: { name: 'raw' } });
+      const middleware: Middleware = async (request, next) => {
+        await next(request);
+        return new Response(JSON.stringify({ name: 'transformed' }), { status: 200 });
+      };
+
+      const { retoken } = createTestRetoken(mockFetch, { middleware: [middleware] });
+      const data = await retoken.fetchJson<{ name: string }>('/api/users');
+
+      expect(data).toEqual({ name: 'transformed' });
+    });
+  });
+
+  describe('fetchJson', () => {
+    it('should return parsed JSON on success', async () => {
+      const mockFetch = createMockFetch({
+        status: 200,
+        body: { id: 1, name: 'Test User' },
+      });
+
+      const { retoken } = createTestRetoken(mockFetch);
+
+      const result = await retoken.fetchJson<{ id: number; name: string }>('/api/users/1');
+
+      expect(result).toEqual({ id: 1, name: 'Test User' });
+    });
+
+    it('should handle 201 status by default', async () => {
+      const mockFetch = createMockFetch({
+        status: 201,
+        body: { id: 2, name: 'New User' },
+      });
+
+      const { retoken } = createTestRetoken(mockFetch);
+
+      const result = await retoken.fetchJson('/api/users', { method: 'POST' });
+
+      expect(result).toEqual({ id: 2, name: 'New User' });
+    });
+
+    it('should handle 204 No Content', async () => {
+      const mockFetch = createMockFetch({ status: 204 });
+
+      const { retoken } = createTestRetoken(mockFetch, {
+        accessToken: createValidToken(),
+      });
+
+      const result = await retoken.fetchJson('/api/users/1', {
+        method: 'DELETE',
+        expectedStatuses: [200, 201, 204],
+      });
+
+      expect(result).toBeNull();
+    });
+
+    it('should throw FetchError on unexpected status', async () => {
+      const mockFetch = createMockFetch({
+        status: 404,
+        ok: false,
+        body: { error: 'Not found' },
+      });
+
+      const { retoken } = createTestRetoken(mockFetch);
+
+      await expect(retoken.fetchJson('/api/users/999')).rejects.toThrow(FetchError);
+
+      try {
+        await retoken.fetchJson('/api/users/999');
+      } catch (error) {
+        expect(error).toBeInstanceOf(FetchError);
+        expect((error as FetchError).status).toBe(404);
+        expect((error as FetchError).body).toEqual({ error: 'Not found' });
+      }
+    });
+
+    it('should use custom expectedStatuses', async () => {
+      const mockFetch = createMockFetch({
+        status: 202,
+        body: { status: 'accepted' },
+      });
+
+      const { retoken } = createTestRetoken(mockFetch);
+
+      const result = await retoken.fetchJson('/api/jobs', {
+        method: 'POST',
+        expectedStatuses: [200, 202],
+      });
+
+      expect(result).toEqual({ status: 'accepted' });
+    });
+  });
+
+  describe('utility methods', () => {
+    it('isTokenExpiringSoon should check current token', () => {
+      const soonExpiringToken = createSoonExpiringToken(60);
+      const mockFetch = createMockFetch({ status: 200 });
+
+      const { retoken } = createTestRetoken(mockFetch, {
+        accessToken: soonExpiringToken,
+        expirationLeeway: 60,
+      });
+
+      expect(retoken.isTokenExpiringSoon()).toBe(true);
+    });
+
+    it('isTokenExpiringSoon should return false for valid token', () => {
+      const validToken = createValidToken();
+      const mockFetch = createMockFetch({ status: 200 });
+
+      const { retoken } = createTestRetoken(mockFetch, { accessToken: validToken });
+
+      expect(retoken.isTokenExpiringSoon()).toBe(false);
+    });
+
+    it('getAccessToken should return the current access token', async () => {
+      const accessToken = createValidToken();
+      const { retoken } = createTestRetoken(createMockFetch({ status: 200 }), { accessToken });
+
+      expect(await retoken.getAccessToken()).toBe(accessToken);
+    });
+
+    it('refreshBeforeRequest should refresh only when the token is expiring soon', async () => {
+      const mockFetch = createMockFetch(createRefreshResponse(createValidToken(), 'new-refresh'));
+      const { retoken } = createTestRetoken(mockFetch, { accessToken: createValidToken() });
+
+      await retoken.refreshBeforeRequest();
+      expect(mockFetch).not.toHaveBeenCalled();
+
+      tokenStore.accessToken = createSoonExpiringToken();
+      await retoken.refreshBeforeRequest();
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(tokenStore.refreshToken).toBe('new-refresh');
+    });
+
+    it('refreshBeforeRequest should not reject when refresh fails', async () => {
+      const mockFetch = createMockFetch({ status: 401, ok: false });
+      const { retoken } = createTestRetoken(mockFetch, {
+        accessToken: createSoonExpiringToken(),
+      });
+
+      await expect(retoken.refreshBeforeRequest()).resolves.toBeUndefined();
+    });
+
+    it('refreshForRetry should refresh on retry statuses only', async () => {
+      const mockFetch = createMockFetch(createRefreshResponse(createValidToken(), 'new-refresh'));
+      const { retoken } = createTestRetoken(mockFetch);
+
+      expect(await retoken.refreshForRetry(500, '/api/users')).toBe(false);
+      expect(mockFetch).not.toHaveBeenCalled();
+
+      expect(await retoken.refreshForRetry(401, '/api/users')).toBe(true);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('refreshForRetry should resolve false when refresh fails', async () => {
+      const mockFetch = createMockFetch({ status: 401, ok: false });
+      const { retoken } = createTestRetoken(mockFetch);
+
+      expect(await retoken.refreshForRetry(401, '/api/users')).toBe(false);
+    });
+
+    it('parseTokenExpiration should parse token', () => {
+      const mockFetch = createMockFetch({ status: 200 });
+      const { retoken } = createTestRetoken(mockFetch);
+
+      const expSeconds = 1700000000;
       const token = createToken(expSeconds);
 
-      expect(retoken.parseTokenExpiration(token)).toBe(expSeconds * 1000);
+      expect(retoken.parseTokenExpiration(token)).toBe(expSeconds * 1000);
+    });
+
+    it('refreshToken should manually trigger refresh', async () => {
+      const newAccessToken = createValidToken();
+      const newRefreshToken = createValidToken();
+      const mockFetch = createMockFetch(createRefreshResponse(newAccessToken, newRefreshToken));
+
+      const { retoken, onTokenRefresh } = createTestRetoken(mockFetch);
+
+      const result = await retoken.refreshToken();
+
+      expect(result).toEqual({ accessToken: newAccessToken, refreshToken: newRefreshToken });
+      expect(onTokenRefresh).toHaveBeenCalledWith({
+        accessToken: newAccessToken,
+        refreshToken: newRefreshToken,
+      });
+    });
+  });
+
+  describe('events', () => {
+    it('should emit refreshStart and refreshSuccess', async () => {
+      const tokens = { accessToken: createValidToken(), refreshToken: createValidToken() };
+      const mockFetch = createMockFetch(
+        createRefreshResponse(tokens.accessToken, tokens.refreshToken)
+      );
+      const { retoken } = createTestRetoken(mockFetch);
+      const calls: string[] = [];
+      retoken.on('refreshStart', () => calls.push('refreshStart'));
+      retoken.on('refreshSuccess', (payload) => {
+        expect(payload).toEqual(tokens);
+        calls.push('refreshSuccess');
+      });
+
+      await retoken.refreshToken();
+
+      expect(calls).toEqual(['refreshStart', 'refreshSuccess']);
+    });
+
+    it('should emit refreshRetry with the attempt number and delay', async () => {
+      const mockFetch = createSequentialMockFetch([
+        { status: 500, ok: false },
+        createRefreshResponse(createValidToken(), createValidToken()),
+      ]);
+      const { retoken } = createTestRetoken(mockFetch);
+      const refreshRetry = vi.fn();
+      retoken.on('refreshRetry', refreshRetry);
+
+      const refreshPromise = retoken.refreshToken();
+      await vi.advanceTimersByTimeAsync(3000);
+      await refreshPromise;
+
+      expect(refreshRetry).toHaveBeenCalledWith({
+        attempt: 1,
+        delay: 3000,
+        error: expect.objectContaining({ status: 500 }) as unknown,
+      });
+    });
+
+    it('should emit refreshFailure and logout on auth failure', async () => {
+      const mockFetch = createMockFetch({ status: 401, ok: false });
+      const { retoken } = createTestRetoken(mockFetch);
+      const refreshFailure = vi.fn();
+      const logout = vi.fn();
+      retoken.on('refreshFailure', refreshFailure);
+      retoken.on('logout', logout);
+
+      await expect(retoken.refreshToken()).rejects.toThrow();
+
+      expect(refreshFailure).toHaveBeenCalledWith(expect.any(RefreshError));
+      expect(refreshFailure.mock.calls[0][0]).toMatchObject({ status: 401 });
+      expect(logout).toHaveBeenCalledWith({ reason: 'authFailure' });
+    });
+
+    it('should emit requestRetried when a request is retried after refresh', async () => {
+      const mockFetch = createSequentialMockFetch([
+        { status: 401, ok: false },
+        createRefreshResponse(createValidToken(), createValidToken()),
+        { status: 200 },
+      ]);
+      const { retoken } = createTestRetoken(mockFetch);
+      const requestRetried = vi.fn();
+      retoken.on('requestRetried', requestRetried);
+
+      await retoken.fetch('/api/users');
+
+      expect(requestRetried).toHaveBeenCalledWith({ url: '/api/users', status: 401 });
+    });
+
+    it('should support several listeners and removing them', async () => {
+      const mockFetch = createMockFetch(
+        createRefreshResponse(createValidToken(), createValidToken())
+      );
+      const { retoken } = createTestRetoken(mockFetch);
+      const first = vi.fn();
+      const second = vi.fn();
+      const unsubscribe = retoken.on('refreshSuccess', first);
+      retoken.on('refreshSuccess', second);
+
+      await retoken.refreshToken();
+      unsubscribe();
+      retoken.off('refreshSuccess', second);
+      await retoken.refreshToken();
+
+      expect(first).toHaveBeenCalledTimes(1);
+      expect(second).toHaveBeenCalledTimes(1);
+    });
+
+    it('should remove listeners on destroy', async () => {
+      const mockFetch = createMockFetch({ status: 401, ok: false });
+      const { retoken } = createTestRetoken(mockFetch);
+      const logout = vi.fn();
+      retoken.on('logout', logout);
+
+      retoken.destroy();
+      await expect(retoken.refreshToken()).rejects.toThrow();
+
+      expect(logout).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('logout', () => {
+    const revocationEndpoint = { url: '/api/logout' };
+
+    it('should clear tokens and call onLogout instead of onAuthFailure', async () => {
+      const { retoken, onAuthFailure, onLogout } = createTestRetoken(createMockFetch());
+      const logout = vi.fn();
+      retoken.on('logout', logout);
+
+      await retoken.logout();
+
+      expect(tokenStore).toEqual({ accessToken: null, refreshToken: null });
+      expect(retoken.getState()).toBe('unauthenticated');
+      expect(logout).toHaveBeenCalledWith({ reason: 'user' });
+      expect(onLogout).toHaveBeenCalledTimes(1);
+      expect(onAuthFailure).not.toHaveBeenCalled();
+    });
+
+    it('should only clear tokens locally without a revocation endpoint', async () => {
+      const mockFetch = createMockFetch();
+      const { retoken } = createTestRetoken(mockFetch);
+
+      await retoken.logout();
+
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should revoke the refresh token', async () => {
+      const mockFetch = createMockFetch();
+      const { retoken } = createTestRetoken(mockFetch, {
+        refreshToken: 'my-refresh',
+        revocationEndpoint,
+      });
+
+      await retoken.logout();
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        '/api/logout',
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ refresh_token: 'my-refresh' }),
+        })
+      );
+    });
+
+    it('should clear tokens and reject with RevocationError when revocation fails', async () => {
+      const { retoken, onLogout } = createTestRetoken(createMockFetch({ status: 503 }), {
+        revocationEndpoint,
+      });
+
+      const error = await retoken.logout().catch((error: unknown) => error);
+
+      expect(error).toBeInstanceOf(RevocationError);
+      expect(error).toMatchObject({ status: 503 });
+      expect(tokenStore.refreshToken).toBeNull();
+      expect(onLogout).toHaveBeenCalled();
+    });
+
+    it('should not revoke without a refresh token', async () => {
+      const mockFetch = createMockFetch();
+      const { retoken } = createTestRetoken(mockFetch, {
+        refreshToken: null,
+        revocationEndpoint,
+      });
+
+      await retoken.logout();
+
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should not store the result of a refresh that completes after logout', async () => {
+      let respond!: (response: Response) => void;
+      const mockFetch = vi.fn(
+        () =>
+          new Promise<Response>((resolve) => {
+            respond = resolve;
+          })
+      );
+      const { retoken, onTokenRefresh, onAuthFailure } = createTestRetoken(mockFetch);
+      const refreshSuccess = vi.fn();
+      retoken.on('refreshSuccess', refreshSuccess);
+
+      const refreshPromise = retoken.refreshToken();
+      await vi.advanceTimersByTimeAsync(0);
+      await retoken.logout();
+      respond(createMockResponse(createRefreshResponse(createValidToken(), 'new-refresh')));
+
+      await expect(refreshPromise).rejects.toThrow('Logged out');
+      expect(tokenStore).toEqual({ accessToken: null, refreshToken: null });
+      expect(retoken.getState()).toBe('unauthenticated');
+      expect(onTokenRefresh).not.toHaveBeenCalled();
+      expect(refreshSuccess).not.toHaveBeenCalled();
+      expect(onAuthFailure).not.toHaveBeenCalled();
+    });
+
+    it('should cancel a refresh that waits for the network', async () => {
+      const mockFetch = createMockFetch(createRefreshResponse(createValidToken(), 'new-refresh'));
+      const environment = createMockEnvironment({ online: false });
+      const { retoken, onAuthFailure } = createTestRetoken(mockFetch, { environment });
+
+      const refreshPromise = retoken.refreshToken();
+      await retoken.logout();
+
+      await expect(refreshPromise).rejects.toThrow('Logged out');
+      environment.emit('online');
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(onAuthFailure).not.toHaveBeenCalled();
+      retoken.destroy();
+    });
+
+    it('should skip revocation when the URL resolves to null', async () => {
+      const mockFetch = createMockFetch();
+      const { retoken } = createTestRetoken(mockFetch, {
+        revocationEndpoint: { url: () => null },
+      });
+
+      await retoken.logout();
+
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('login', () => {
+    it('should schedule background refresh for tokens stored after startup', async () => {
+      const mockFetch = createMockFetch(createRefreshResponse(createValidToken(), 'new-refresh'));
+      const { retoken } = createTestRetoken(mockFetch, {
+        accessToken: null,
+        refreshToken: null,
+        expirationLeeway: 60,
+        backgroundRefreshEnabled: true,
+      });
+      await vi.advanceTimersByTimeAsync(0);
+
+      await retoken.login({
+        accessToken: createTokenWithOffset(300),
+        refreshToken: 'login-refresh',
+      });
+      expect(tokenStore.refreshToken).toBe('login-refresh');
+
+      await vi.advanceTimersByTimeAsync(239 * 1000);
+      expect(mockFetch).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(tokenStore.refreshToken).toBe('new-refresh');
+
+      retoken.destroy();
+    });
+
+    it('should schedule background refresh again after logout', async () => {
+      const mockFetch = createMockFetch(createRefreshResponse(createValidToken(), 'new-refresh'));
+      const { retoken } = createTestRetoken(mockFetch, {
+        accessToken: createTokenWithOffset(120),
+        expirationLeeway: 60,
+        backgroundRefreshEnabled: true,
+      });
+
+      await retoken.logout();
+      await retoken.login({
+        accessToken: createTokenWithOffset(300),
+        refreshToken: 'login-refresh',
+      });
+
+      await vi.advanceTimersByTimeAsync(240 * 1000);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      retoken.destroy();
+    });
+
+    it('should convert expiresIn to expiresAt', async () => {
+      const mockFetch = createMockFetch(createRefreshResponse('new-access', 'new-refresh'));
+      cleanup = setupFetchMock(mockFetch);
+      const storage = createMemoryStorage();
+      const retoken = createRetoken({
+        refreshEndpoint: { url: '/api/refresh', parseResponse: vi.fn() },
+        storage,
+        environment: null,
+        expirationLeeway: 60,
+        backgroundRefresh: { enabled: true },
+      });
+
+      await retoken.login({ accessToken: 'opaque-token', refreshToken: 'r0', expiresIn: 300 });
+      expect(storage.getExpiresAt?.()).toBe(Date.now() + 300 * 1000);
+
+      await vi.advanceTimersByTimeAsync(240 * 1000);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      retoken.destroy();
+    });
+
+    it('should schedule the session expiry warning', async () => {
+      const retoken = createRetoken({
+        refreshEndpoint: { url: '/api/refresh', parseResponse: vi.fn() },
+        storage: createMemoryStorage(),
+        environment: null,
+        sessionExpiryWarning: 300,
+      });
+      const sessionExpiring = vi.fn();
+      retoken.on('sessionExpiring', sessionExpiring);
+
+      await retoken.login({
+        accessToken: createValidToken(),
+        refreshToken: createTokenWithOffset(600),
+      });
+
+      await vi.advanceTimersByTimeAsync(300 * 1000);
+      expect(sessionExpiring).toHaveBeenCalledTimes(1);
+
+      retoken.destroy();
+    });
+  });
+
+  describe('refresh token expiry', () => {
+    it('should fail without a refresh request when the refresh token JWT has expired', async () => {
+      const mockFetch = createMockFetch(createRefreshResponse(createValidToken(), 'new-refresh'));
+      const { retoken, onAuthFailure } = createTestRetoken(mockFetch, {
+        refreshToken: createExpiredToken(),
+      });
+      const logout = vi.fn();
+      retoken.on('logout', logout);
+
+      await expect(retoken.refreshToken()).rejects.toThrow('Refresh token expired');
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(tokenStore.accessToken).toBeNull();
+      expect(logout).toHaveBeenCalledWith({ reason: 'authFailure' });
+      expect(onAuthFailure).toHaveBeenCalled();
+    });
+
+    it('should use the stored refresh token expiration for opaque refresh tokens', async () => {
+      const mockFetch = createMockFetch();
+      cleanup = setupFetchMock(mockFetch);
+      const retoken = createRetoken({
+        refreshEndpoint: { url: '/api/refresh', parseResponse: vi.fn() },
+        storage: createMemoryStorage({
+          initialTokens: {
+            accessToken: 'opaque-token',
+            refreshToken: 'opaque-refresh',
+            refreshExpiresAt: Date.now() - 1000,
+          },
+        }),
+        environment: null,
+      });
+
+      await expect(retoken.refreshToken()).rejects.toThrow('Refresh token expired');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should emit sessionExpiring ahead of the refresh token expiry', async () => {
+      const refreshToken = createTokenWithOffset(600);
+      const retoken = createRetoken({
+        refreshEndpoint: { url: '/api/refresh', parseResponse: vi.fn() },
+        storage: createMemoryStorage({
+          initialTokens: { accessToken: createValidToken(), refreshToken },
+        }),
+        environment: null,
+        sessionExpiryWarning: 300,
+      });
+      const sessionExpiring = vi.fn();
+      retoken.on('sessionExpiring', sessionExpiring);
+
+      await vi.advanceTimersByTimeAsync(299 * 1000);
+      expect(sessionExpiring).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(sessionExpiring).toHaveBeenCalledTimes(1);
+      expect(sessionExpiring).toHaveBeenCalledWith({
+        expiresAt: parseTokenExpiration(refreshToken),
+      });
+    });
+
+    it('should not emit sessionExpiring after logout', async () => {
+      const sessionExpiring = vi.fn();
+      const retoken = createRetoken({
+        refreshEndpoint: { url: '/api/refresh', parseResponse: vi.fn() },
+        storage: createMemoryStorage({
+          initialTokens: {
+            accessToken: createValidToken(),
+            refreshToken: createTokenWithOffset(600),
+          },
+        }),
+        environment: null,
+        sessionExpiryWarning: 300,
+      });
+      retoken.on('sessionExpiring', sessionExpiring);
+
+      await retoken.logout();
+      await vi.advanceTimersByTimeAsync(600 * 1000);
+
+      expect(sessionExpiring).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('auth state', () => {
+    it('should be authenticated when an access token is stored', async () => {
+      const { retoken } = createTestRetoken(createMockFetch({ status: 200 }));
+
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(retoken.getState()).toBe('authenticated');
+    });
+
+    it('should stay idle without an access token', async () => {
+      const { retoken } = createTestRetoken(createMockFetch({ status: 200 }), {
+        accessToken: null,
+      });
+
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(retoken.getState()).toBe('idle');
+    });
+
+    it('should become authenticated on login', async () => {
+      const { retoken } = createTestRetoken(createMockFetch({ status: 200 }), {
+        accessToken: null,
+      });
+      await vi.advanceTimersByTimeAsync(0);
+
+      await retoken.login({ accessToken: createValidToken(), refreshToken: 'login-refresh' });
+
+      expect(retoken.getState()).toBe('authenticated');
+    });
+
+    it('should become authenticated on login after logout', async () => {
+      const { retoken } = createTestRetoken(createMockFetch({ status: 200 }));
+      await vi.advanceTimersByTimeAsync(0);
+
+      await retoken.logout();
+      expect(retoken.getState()).toBe('unauthenticated');
+
+      await retoken.login({ accessToken: createValidToken(), refreshToken: 'login-refresh' });
+      expect(retoken.getState()).toBe('authenticated');
+    });
+
+    it('should move through refreshing to authenticated on refresh', async () => {
+      const mockFetch = createMockFetch(
+        createRefreshResponse(createValidToken(), createValidToken())
+      );
+      const { retoken } = createTestRetoken(mockFetch, { accessToken: null });
+      const listener = vi.fn();
+      retoken.subscribe(listener);
+
+      await retoken.refreshToken();
+
+      expect(listener.mock.calls).toEqual([
+        ['refreshing', 'idle'],
+        ['authenticated', 'refreshing'],
+      ]);
+    });
+
+    it('should become unauthenticated when refresh fails', async () => {
+      const mockFetch = createMockFetch({ status: 401, ok: false });
+      const { retoken } = createTestRetoken(mockFetch);
+      await vi.advanceTimersByTimeAsync(0);
+
+      await expect(retoken.refreshToken()).rejects.toThrow();
+
+      expect(retoken.getState()).toBe('unauthenticated');
+    });
+
+    it('should report offline while the network is unavailable', async () => {
+      const environment = createMockEnvironment();
+      const { retoken } = createTestRetoken(createMockFetch({ status: 200 }), { environment });
+      await vi.advanceTimersByTimeAsync(0);
+
+      environment.emit('offline');
+      expect(retoken.getState()).toBe('offline');
+
+      environment.emit('online');
+      expect(retoken.getState()).toBe('authenticated');
+    });
+
+    it('should cancel a refresh that waits for the network on destroy', async () => {
+      const mockFetch = createMockFetch(createRefreshResponse(createValidToken(), 'new-refresh'));
+      const environment = createMockEnvironment({ online: false });
+      const { retoken, onAuthFailure } = createTestRetoken(mockFetch, { environment });
+
+      const refreshPromise = retoken.refreshToken();
+      retoken.destroy();
+
+      await expect(refreshPromise).rejects.toThrow('Retoken instance destroyed');
+      environment.emit('online');
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(onAuthFailure).not.toHaveBeenCalled();
+    });
+
+    it('should stop notifying listeners after destroy', async () => {
+      const mockFetch = createMockFetch({ status: 401, ok: false });
+      const { retoken } = createTestRetoken(mockFetch);
+      await vi.advanceTimersByTimeAsync(0);
+      const listener = vi.fn();
+      retoken.subscribe(listener);
+
+      retoken.destroy();
+      await expect(retoken.refreshToken()).rejects.toThrow();
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('background refresh', () => {
+    it('should refresh before the access token expires without any request', async () => {
+      const mockFetch = createMockFetch(createRefreshResponse(createValidToken(), 'new-refresh'));
+
+      const { retoken, onTokenRefresh } = createTestRetoken(mockFetch, {
+        accessToken: createTokenWithOffset(300),
+        expirationLeeway: 60,
+        backgroundRefreshEnabled: true,
+      });
+
+      await vi.advanceTimersByTimeAsync(239 * 1000);
+      expect(mockFetch).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch.mock.calls[0][0]).toBe('/api/refresh');
+      expect(onTokenRefresh).toHaveBeenCalled();
+
+      retoken.destroy();
+    });
+
+    it('should reschedule after each refresh', async () => {
+      const mockFetch = createSequentialMockFetch([
+        createRefreshResponse(createTokenWithOffset(300), 'refresh-1'),
+        createRefreshResponse(createTokenWithOffset(600), 'refresh-2'),
+      ]);
+
+      const { retoken } = createTestRetoken(mockFetch, {
+        accessToken: createTokenWithOffset(120),
+        expirationLeeway: 60,
+        backgroundRefreshEnabled: true,
+      });
+
+      await vi.advanceTimersByTimeAsync(60 * 1000);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      // New token issued at t=60s expires at t=360s -> refresh at t=300s
+      await vi.advanceTimersByTimeAsync(240 * 1000);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(tokenStore.refreshToken).toBe('refresh-2');
+
+      retoken.destroy();
     });
 
-    it('refreshToken should manually trigger refresh', async () => {
-      const newAccessToken = createValidToken();
-      const newRefreshToken = createValidToken();
-      const mockFetch = createMockFetch(createRefreshResponse(newAccessToken, newRefreshToken));
+    it('should not schedule when disabled', async () => {
+      const mockFetch = createMockFetch(createRefreshResponse(createValidToken(), 'new-refresh'));
 
-      const { retoken, onTokenRefresh } = createTestRetoken(mockFetch);
+      createTestRetoken(mockFetch, { accessToken: createTokenWithOffset(120) });
 
-      const result = await retoken.refreshToken();
+      await vi.advanceTimersByTimeAsync(120 * 1000);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
 
-      expect(result).toEqual({ accessToken: newAccessToken, refreshToken: newRefreshToken });
-      expect(onTokenRefresh).toHaveBeenCalledWith({
-        accessToken: newAccessToken,
-        refreshToken: newRefreshToken,
+    it('should cancel the scheduled refresh on destroy', async () => {
+      const mockFetch = createMockFetch(createRefreshResponse(createValidToken(), 'new-refresh'));
+
+      const { retoken } = createTestRetoken(mockFetch, {
+        accessToken: createTokenWithOffset(120),
+        backgroundRefreshEnabled: true,
+      });
+
+      retoken.destroy();
+      await vi.advanceTimersByTimeAsync(120 * 1000);
+
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should stop scheduling after auth failure', async () => {
+      const mockFetch = createMockFetch({ status: 401, ok: false });
+
+      const { retoken, onAuthFailure } = createTestRetoken(mockFetch, {
+        accessToken: createTokenWithOffset(120),
+        expirationLeeway: 60,
+        backgroundRefreshEnabled: true,
+      });
+
+      await vi.advanceTimersByTimeAsync(60 * 1000);
+      expect(onAuthFailure).toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(24 * 60 * 60 * 1000);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      retoken.destroy();
+    });
+  });
+
+  describe('network and visibility', () => {
+    it('should skip proactive refresh while offline', async () => {
+      const mockFetch = createMockFetch({ status: 200 });
+
+      const { retoken } = createTestRetoken(mockFetch, {
+        accessToken: createSoonExpiringToken(60),
+        environment: createMockEnvironment({ online: false }),
+      });
+
+      await retoken.fetch('/api/users');
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch.mock.calls[0][0]).toBe('/api/users');
+    });
+
+    it('should pause background refresh while hidden', async () => {
+      const mockFetch = createMockFetch(createRefreshResponse(createValidToken(), 'new-refresh'));
+      const environment = createMockEnvironment();
+
+      const { retoken } = createTestRetoken(mockFetch, {
+        accessToken: createTokenWithOffset(120),
+        expirationLeeway: 60,
+        backgroundRefreshEnabled: true,
+        environment,
+      });
+
+      environment.emit('hidden');
+      await vi.advanceTimersByTimeAsync(120 * 1000);
+      expect(mockFetch).not.toHaveBeenCalled();
+
+      retoken.destroy();
+    });
+
+    it('should refresh immediately when a hidden tab becomes visible with an expiring token', async () => {
+      const mockFetch = createMockFetch(createRefreshResponse(createValidToken(), 'new-refresh'));
+      const environment = createMockEnvironment({ visible: false });
+
+      const { retoken } = createTestRetoken(mockFetch, {
+        accessToken: createTokenWithOffset(120),
+        expirationLeeway: 60,
+        backgroundRefreshEnabled: true,
+        environment,
+      });
+
+      await vi.advanceTimersByTimeAsync(90 * 1000);
+      expect(mockFetch).not.toHaveBeenCalled();
+
+      environment.emit('visible');
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch.mock.calls[0][0]).toBe('/api/refresh');
+
+      retoken.destroy();
+    });
+
+    it('should reschedule when a tab becomes visible with a valid token', async () => {
+      const mockFetch = createMockFetch(createRefreshResponse(createValidToken(), 'new-refresh'));
+      const environment = createMockEnvironment({ visible: false });
+
+      const { retoken } = createTestRetoken(mockFetch, {
+        accessToken: createTokenWithOffset(300),
+        expirationLeeway: 60,
+        backgroundRefreshEnabled: true,
+        environment,
+      });
+
+      environment.emit('visible');
+      await vi.advanceTimersByTimeAsync(0);
+      expect(mockFetch).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(240 * 1000);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      retoken.destroy();
+    });
+
+    it('should keep scheduling while hidden when pauseWhenHidden is false', async () => {
+      const mockFetch = createMockFetch(createRefreshResponse(createValidToken(), 'new-refresh'));
+      const environment = createMockEnvironment({ visible: false });
+      cleanup = setupFetchMock(mockFetch);
+
+      const retoken = createRetoken<{ access_token: string; refresh_token: string }>({
+        refreshEndpoint: {
+          url: '/api/refresh',
+          parseResponse: (data) => ({
+            accessToken: data.access_token,
+            refreshToken: data.refresh_token,
+          }),
+        },
+        getAccessToken: () => createTokenWithOffset(120),
+        getRefreshToken: () => 'refresh',
+        setTokens: vi.fn(),
+        clearTokens: vi.fn(),
+        backgroundRefresh: { enabled: true, pauseWhenHidden: false },
+        environment,
+      });
+
+      await vi.advanceTimersByTimeAsync(60 * 1000);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      retoken.destroy();
+    });
+
+    it('should pause while offline and catch up when back online', async () => {
+      const mockFetch = createMockFetch(createRefreshResponse(createValidToken(), 'new-refresh'));
+      const environment = createMockEnvironment();
+
+      const { retoken } = createTestRetoken(mockFetch, {
+        accessToken: createTokenWithOffset(120),
+        expirationLeeway: 60,
+        backgroundRefreshEnabled: true,
+        environment,
+      });
+
+      environment.emit('offline');
+      await vi.advanceTimersByTimeAsync(90 * 1000);
+      expect(mockFetch).not.toHaveBeenCalled();
+
+      environment.emit('online');
+      await vi.advanceTimersByTimeAsync(0);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      retoken.destroy();
+    });
+
+    it('should not refresh in a logged-out tab when it becomes visible or goes online', async () => {
+      const mockFetch = createMockFetch(createRefreshResponse(createValidToken(), 'new-refresh'));
+      const environment = createMockEnvironment({ online: false, visible: false });
+
+      const { retoken, onAuthFailure } = createTestRetoken(mockFetch, {
+        accessToken: null,
+        refreshToken: null,
+        backgroundRefreshEnabled: true,
+        environment,
+      });
+
+      environment.emit('visible');
+      environment.emit('online');
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(onAuthFailure).not.toHaveBeenCalled();
+      expect(retoken.getState()).toBe('idle');
+
+      retoken.destroy();
+    });
+  });
+
+  describe('refresh lock', () => {
+    it('should refresh through the configured lock provider', async () => {
+      const mockFetch = createMockFetch(createRefreshResponse('new-access', 'new-refresh'));
+      cleanup = setupFetchMock(mockFetch);
+      const provider = createMockLockProvider();
+
+      const retoken = createRetoken<{ access_token: string; refresh_token: string }>({
+        refreshEndpoint: {
+          url: '/api/refresh',
+          parseResponse: (data) => ({
+            accessToken: data.access_token,
+            refreshToken: data.refresh_token,
+          }),
+        },
+        getAccessToken: () => 'old-access',
+        getRefreshToken: () => 'old-refresh',
+        setTokens: vi.fn(),
+        clearTokens: vi.fn(),
+        lock: { enabled: true, name: 'my-app-refresh', provider },
       });
+
+      await retoken.refreshToken();
+
+      expect(provider.request).toHaveBeenCalledWith('my-app-refresh', expect.any(Function));
+      expect(mockFetch).toHaveBeenCalledTimes(1);
     });
   });
 
@@ -456,6 +2072,55 @@ describe('createRetoken', () => {
       expect(mockChannel.postMessage).toHaveBeenCalledWith({ type: 'LOGOUT' });
     });
 
+    it('should broadcast logout with the user reason on logout()', async () => {
+      const mockFetch = createMockFetch({ status: 200 });
+      const { retoken } = createTestRetoken(mockFetch, { crossTabEnabled: true });
+
+      await retoken.logout();
+
+      expect(mockChannel.postMessage).toHaveBeenCalledWith({ type: 'LOGOUT', reason: 'user' });
+    });
+
+    it('should call onLogout when another tab logs out with logout()', async () => {
+      const mockFetch = createMockFetch({ status: 200 });
+      const { retoken, onAuthFailure, onLogout } = createTestRetoken(mockFetch, {
+        crossTabEnabled: true,
+      });
+      const crossTabLogout = vi.fn();
+      retoken.on('crossTabLogout', crossTabLogout);
+
+      mockChannel.onmessage?.({ data: { type: 'LOGOUT', reason: 'user' } } as MessageEvent);
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(tokenStore.refreshToken).toBeNull();
+      expect(crossTabLogout).toHaveBeenCalledWith({ reason: 'user' });
+      expect(onLogout).toHaveBeenCalled();
+      expect(onAuthFailure).not.toHaveBeenCalled();
+    });
+
+    it('should not broadcast the result of a refresh that completes after a remote logout', async () => {
+      let respond!: (response: Response) => void;
+      const mockFetch = vi.fn(
+        () =>
+          new Promise<Response>((resolve) => {
+            respond = resolve;
+          })
+      );
+      const { retoken } = createTestRetoken(mockFetch, { crossTabEnabled: true });
+
+      const refreshPromise = retoken.refreshToken();
+      await vi.advanceTimersByTimeAsync(0);
+      mockChannel.onmessage?.({ data: { type: 'LOGOUT', reason: 'user' } } as MessageEvent);
+      await vi.advanceTimersByTimeAsync(0);
+      respond(createMockResponse(createRefreshResponse(createValidToken(), 'new-refresh')));
+
+      await expect(refreshPromise).rejects.toThrow('Logged out in another tab');
+      expect(tokenStore).toEqual({ accessToken: null, refreshToken: null });
+      expect(mockChannel.postMessage).not.toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'TOKENS_REFRESHED' })
+      );
+    });
+
     it('should close channel on destroy', () => {
       const mockFetch = createMockFetch({ status: 200 });
 
@@ -466,7 +2131,7 @@ describe('createRetoken', () => {
       expect(mockChannel.close).toHaveBeenCalled();
     });
 
-    it('should clear tokens when receiving logout from another tab', () => {
+    it('should clear tokens when receiving logout from another tab', async () => {
       const mockFetch = createMockFetch({ status: 200 });
       const onAuthFailure = vi.fn();
 
@@ -477,10 +2142,329 @@ describe('createRetoken', () => {
 
       // Simulate receiving logout message
       mockChannel.onmessage?.({ data: { type: 'LOGOUT' } } as MessageEvent);
+      await vi.advanceTimersByTimeAsync(0);
 
       expect(tokenStore.accessToken).toBeNull();
       expect(tokenStore.refreshToken).toBeNull();
       expect(onAuthFailure).toHaveBeenCalled();
     });
+
+    it('should emit crossTabLogout but not logout when another tab logs out', async () => {
+      const mockFetch = createMockFetch({ status: 200 });
+      const { retoken } = createTestRetoken(mockFetch, { crossTabEnabled: true });
+      const crossTabLogout = vi.fn();
+      const logout = vi.fn();
+      retoken.on('crossTabLogout', crossTabLogout);
+      retoken.on('logout', logout);
+
+      mockChannel.onmessage?.({ data: { type: 'LOGOUT' } } as MessageEvent);
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(crossTabLogout).toHaveBeenCalledTimes(1);
+      expect(logout).not.toHaveBeenCalled();
+    });
+
+    it('should track refreshes and logouts from other tabs in the auth state', async () => {
+      const mockFetch = createMockFetch({ status: 200 });
+      const { retoken } = createTestRetoken(mockFetch, { crossTabEnabled: true });
+      await vi.advanceTimersByTimeAsync(0);
+
+      mockChannel.onmessage?.({ data: { type: 'REFRESH_START' } } as MessageEvent);
+      expect(retoken.getState()).toBe('refreshing');
+
+      const tokens = { accessToken: createValidToken(), refreshToken: 'remote-refresh' };
+      mockChannel.onmessage?.({ data: { type: 'TOKENS_REFRESHED', tokens } } as MessageEvent);
+      await vi.advanceTimersByTimeAsync(0);
+      expect(retoken.getState()).toBe('authenticated');
+
+      mockChannel.onmessage?.({ data: { type: 'LOGOUT' } } as MessageEvent);
+      await vi.advanceTimersByTimeAsync(0);
+      expect(retoken.getState()).toBe('unauthenticated');
+    });
+
+    it('should emit refreshSuccess for tokens adopted from another tab', async () => {
+      const mockFetch = createMockFetch({ status: 200 });
+      const { retoken } = createTestRetoken(mockFetch, { crossTabEnabled: true });
+      const refreshSuccess = vi.fn();
+      retoken.on('refreshSuccess', refreshSuccess);
+      const tokens = { accessToken: createValidToken(), refreshToken: 'remote-refresh' };
+
+      mockChannel.onmessage?.({ data: { type: 'TOKENS_REFRESHED', tokens } } as MessageEvent);
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(refreshSuccess).toHaveBeenCalledWith(tokens);
+    });
+
+    it('should broadcast refresh start and refreshed tokens', async () => {
+      const newAccessToken = createValidToken();
+      const newRefreshToken = createValidToken();
+      const mockFetch = createMockFetch(createRefreshResponse(newAccessToken, newRefreshToken));
+
+      const { retoken } = createTestRetoken(mockFetch, { crossTabEnabled: true });
+
+      await retoken.refreshToken();
+
+      expect(mockChannel.postMessage).toHaveBeenNthCalledWith(1, { type: 'REFRESH_START' });
+      expect(mockChannel.postMessage).toHaveBeenNthCalledWith(2, {
+        type: 'TOKENS_REFRESHED',
+        tokens: { accessToken: newAccessToken, refreshToken: newRefreshToken },
+      });
+    });
+
+    it('should adopt tokens refreshed by another tab', async () => {
+      const mockFetch = createMockFetch({ status: 200 });
+      const onTokenRefresh = vi.fn();
+      const tokens = { accessToken: createValidToken(), refreshToken: createValidToken() };
+
+      createTestRetoken(mockFetch, { crossTabEnabled: true, onTokenRefresh });
+
+      mockChannel.onmessage?.({ data: { type: 'TOKENS_REFRESHED', tokens } } as MessageEvent);
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(tokenStore).toEqual(tokens);
+      expect(onTokenRefresh).toHaveBeenCalledWith(tokens);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should wait for an in-flight refresh in another tab instead of refreshing', async () => {
+      const tokens = { accessToken: createValidToken(), refreshToken: createValidToken() };
+      const mockFetch = createSequentialMockFetch([
+        { status: 401, ok: false },
+        { status: 200, body: { data: 'test' } },
+      ]);
+
+      const { retoken } = createTestRetoken(mockFetch, { crossTabEnabled: true });
+
+      mockChannel.onmessage?.({ data: { type: 'REFRESH_START' } } as MessageEvent);
+
+      const responsePromise = retoken.fetch('/api/users');
+      await vi.advanceTimersByTimeAsync(0);
+
+      mockChannel.onmessage?.({ data: { type: 'TOKENS_REFRESHED', tokens } } as MessageEvent);
+      const response = await responsePromise;
+
+      expect(response.status).toBe(200);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls.map((call) => call[0] as string)).toEqual([
+        '/api/users',
+        '/api/users',
+      ]);
+      const headers = (mockFetch.mock.calls[1][1] as RequestInit).headers as Headers;
+      expect(headers.get('Authorization')).toBe(`Bearer ${tokens.accessToken}`);
+    });
+
+    it('should reject waiters when another tab logs out during refresh', async () => {
+      const mockFetch = createMockFetch({ status: 200 });
+
+      const { retoken } = createTestRetoken(mockFetch, { crossTabEnabled: true });
+
+      mockChannel.onmessage?.({ data: { type: 'REFRESH_START' } } as MessageEvent);
+      const refreshPromise = retoken.refreshToken();
+
+      mockChannel.onmessage?.({ data: { type: 'LOGOUT' } } as MessageEvent);
+
+      await expect(refreshPromise).rejects.toThrow('Refresh failed in another tab');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should refresh locally when another tab does not finish in time', async () => {
+      const newAccessToken = createValidToken();
+      const newRefreshToken = createValidToken();
+      const mockFetch = createMockFetch(createRefreshResponse(newAccessToken, newRefreshToken));
+
+      const { retoken } = createTestRetoken(mockFetch, {
+        crossTabEnabled: true,
+        crossTabRefreshTimeout: 1000,
+      });
+
+      mockChannel.onmessage?.({ data: { type: 'REFRESH_START' } } as MessageEvent);
+      const refreshPromise = retoken.refreshToken();
+
+      await vi.advanceTimersByTimeAsync(999);
+      expect(mockFetch).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1);
+
+      await expect(refreshPromise).resolves.toEqual({
+        accessToken: newAccessToken,
+        refreshToken: newRefreshToken,
+      });
+      expect(mockFetch).toHaveBeenCalledWith('/api/refresh', expect.anything());
+    });
+
+    describe('leader election', () => {
+      it('should report leader when leader election is disabled', () => {
+        const mockFetch = createMockFetch({ status: 200 });
+
+        const { retoken } = createTestRetoken(mockFetch, { crossTabEnabled: true });
+
+        expect(retoken.isLeader()).toBe(true);
+      });
+
+      it('should become leader when no other tab sends heartbeats', () => {
+        const mockFetch = createMockFetch({ status: 200 });
+
+        const { retoken } = createTestRetoken(mockFetch, {
+          crossTabEnabled: true,
+          leaderElectionEnabled: true,
+        });
+
+        expect(retoken.isLeader()).toBe(false);
+        vi.advanceTimersByTime(3000);
+        expect(retoken.isLeader()).toBe(true);
+        expect(mockChannel.postMessage).toHaveBeenCalledWith({
+          type: 'LEADER_HEARTBEAT',
+          tabId: expect.any(String) as unknown,
+        });
+
+        retoken.destroy();
+      });
+
+      it('should skip proactive refresh while following another leader tab', async () => {
+        const mockFetch = createMockFetch({ status: 200 });
+
+        const { retoken } = createTestRetoken(mockFetch, {
+          crossTabEnabled: true,
+          leaderElectionEnabled: true,
+          accessToken: createSoonExpiringToken(60),
+        });
+
+        mockChannel.onmessage?.({
+          data: { type: 'LEADER_HEARTBEAT', tabId: 'other-tab' },
+        } as MessageEvent);
+
+        await retoken.fetch('/api/users');
+
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+        expect(mockFetch.mock.calls[0][0]).toBe('/api/users');
+
+        retoken.destroy();
+      });
+
+      it('should proactively refresh on heartbeat as leader', async () => {
+        const newAccessToken = createValidToken();
+        const newRefreshToken = createValidToken();
+        const mockFetch = createMockFetch(createRefreshResponse(newAccessToken, newRefreshToken));
+
+        createTestRetoken(mockFetch, {
+          crossTabEnabled: true,
+          leaderElectionEnabled: true,
+          accessToken: createSoonExpiringToken(60),
+        });
+
+        await vi.advanceTimersByTimeAsync(3000);
+
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+        expect(mockFetch.mock.calls[0][0]).toBe('/api/refresh');
+        expect(tokenStore.accessToken).toBe(newAccessToken);
+        expect(mockChannel.postMessage).toHaveBeenCalledWith({
+          type: 'TOKENS_REFRESHED',
+          tokens: { accessToken: newAccessToken, refreshToken: newRefreshToken },
+        });
+      });
+
+      it('should not refresh on heartbeat in a logged-out leader tab', async () => {
+        const mockFetch = createMockFetch(createRefreshResponse(createValidToken(), 'new'));
+
+        const { retoken, onAuthFailure } = createTestRetoken(mockFetch, {
+          crossTabEnabled: true,
+          leaderElectionEnabled: true,
+          accessToken: null,
+          refreshToken: null,
+        });
+
+        await vi.advanceTimersByTimeAsync(20000);
+
+        expect(retoken.isLeader()).toBe(true);
+        expect(mockFetch).not.toHaveBeenCalled();
+        expect(onAuthFailure).not.toHaveBeenCalled();
+        expect(mockChannel.postMessage).not.toHaveBeenCalledWith(
+          expect.objectContaining({ type: 'LOGOUT' })
+        );
+
+        retoken.destroy();
+      });
+
+      it('should not refresh on heartbeat without a known token expiration', async () => {
+        const mockFetch = createMockFetch(createRefreshResponse(createValidToken(), 'new'));
+
+        const { retoken } = createTestRetoken(mockFetch, {
+          crossTabEnabled: true,
+          leaderElectionEnabled: true,
+          accessToken: 'opaque-token',
+        });
+
+        await vi.advanceTimersByTimeAsync(20000);
+
+        expect(mockFetch).not.toHaveBeenCalled();
+
+        retoken.destroy();
+      });
+
+      it('should leave proactive refresh to the scheduler with backgroundRefresh', async () => {
+        const mockFetch = createMockFetch(createRefreshResponse(createValidToken(), 'new'));
+
+        // The scheduler pauses while the page is hidden; heartbeats must not refresh either
+        const { retoken } = createTestRetoken(mockFetch, {
+          crossTabEnabled: true,
+          leaderElectionEnabled: true,
+          backgroundRefreshEnabled: true,
+          environment: createMockEnvironment({ visible: false }),
+          accessToken: createSoonExpiringToken(30),
+        });
+
+        await vi.advanceTimersByTimeAsync(20000);
+
+        expect(retoken.isLeader()).toBe(true);
+        expect(mockFetch).not.toHaveBeenCalled();
+
+        retoken.destroy();
+      });
+
+      it('should only schedule background refresh while leader', async () => {
+        const mockFetch = createMockFetch(createRefreshResponse(createValidToken(), 'new'));
+
+        const { retoken } = createTestRetoken(mockFetch, {
+          crossTabEnabled: true,
+          leaderElectionEnabled: true,
+          backgroundRefreshEnabled: true,
+          accessToken: createTokenWithOffset(62),
+          expirationLeeway: 60,
+        });
+
+        // Follow another leader until its heartbeats stop
+        mockChannel.onmessage?.({
+          data: { type: 'LEADER_HEARTBEAT', tabId: 'other-tab' },
+        } as MessageEvent);
+        await vi.advanceTimersByTimeAsync(2000);
+        expect(mockFetch).not.toHaveBeenCalled();
+
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(retoken.isLeader()).toBe(true);
+
+        // The new leader's scheduler reads the token, then refreshes right away
+        await vi.advanceTimersByTimeAsync(100);
+        expect(mockFetch).toHaveBeenCalledTimes(1);
+
+        retoken.destroy();
+      });
+
+      it('should resign leadership on destroy', () => {
+        const mockFetch = createMockFetch({ status: 200 });
+
+        const { retoken } = createTestRetoken(mockFetch, {
+          crossTabEnabled: true,
+          leaderElectionEnabled: true,
+        });
+
+        vi.advanceTimersByTime(3000);
+        retoken.destroy();
+
+        expect(mockChannel.postMessage).toHaveBeenLastCalledWith({
+          type: 'LEADER_RESIGN',
+          tabId: expect.any(String) as unknown,
+        });
+      });
+    });
   });
 });
@@ -73,6 +73,8 @@ describe('createCrossTabSync', () => {
 
       expect(result).not.toBeNull();
       expect(result).toHaveProperty('broadcastLogout');
+      expect(result).toHaveProperty('broadcastRefreshStart');
+      expect(result).toHaveProperty('broadcastTokensRefreshed');
       expect(result).toHaveProperty('destroy');
       expect(typeof result?.broadcastLogout).toBe('function');
       expect(typeof result?.destroy).toBe('function');
@@ -89,6 +91,31 @@ describe('createCrossTabSync', () => {
       expect(mockChannel.postMessage).toHaveBeenCalledWith({ type: 'LOGOUT' });
     });
 
+    it('should broadcast refresh start message', () => {
+      const sync = createCrossTabSync({
+        channelName: 'test',
+        onLogoutReceived: vi.fn(),
+      });
+
+      sync?.broadcastRefreshStart();
+
+      expect(mockChannel.postMessage).toHaveBeenCalledWith({ type: 'REFRESH_START' });
+    });
+
+    it('should broadcast refreshed tokens', () => {
+      const sync = createCrossTabSync({
+        channelName: 'test',
+        onLogoutReceived: vi.fn(),
+      });
+
+      sync?.broadcastTokensRefreshed({ accessToken: 'access', refreshToken: 'refresh' });
+
+      expect(mockChannel.postMessage).toHaveBeenCalledWith({
+        type: 'TOKENS_REFRESHED',
+        tokens: { accessToken: 'access', refreshToken: 'refresh' },
+      });
+    });
+
     it('should close channel on destroy', () => {
       const sync = createCrossTabSync({
         channelName: 'test',
@@ -112,7 +139,52 @@ describe('createCrossTabSync', () => {
       const messageEvent = { data: { type: 'LOGOUT' } } as MessageEvent;
       mockChannel.onmessage?.(messageEvent);
 
-      expect(onLogoutReceived).toHaveBeenCalled();
+      expect(onLogoutReceived).toHaveBeenCalledWith('authFailure');
+    });
+
+    it('should pass the logout reason to onLogoutReceived', () => {
+      const onLogoutReceived = vi.fn();
+
+      const sync = createCrossTabSync({
+        channelName: 'test',
+        onLogoutReceived,
+      });
+
+      sync?.broadcastLogout('user');
+      const message = mockChannel.postMessage.mock.calls[0][0] as unknown;
+      mockChannel.onmessage?.({ data: message } as MessageEvent);
+
+      expect(message).toEqual({ type: 'LOGOUT', reason: 'user' });
+      expect(onLogoutReceived).toHaveBeenCalledWith('user');
+    });
+
+    it('should call onRefreshStartReceived when receiving REFRESH_START message', () => {
+      const onRefreshStartReceived = vi.fn();
+
+      createCrossTabSync({
+        channelName: 'test',
+        onLogoutReceived: vi.fn(),
+        onRefreshStartReceived,
+      });
+
+      mockChannel.onmessage?.({ data: { type: 'REFRESH_START' } } as MessageEvent);
+
+      expect(onRefreshStartReceived).toHaveBeenCalled();
+    });
+
+    it('should call onTokensRefreshedReceived with tokens from TOKENS_REFRESHED message', () => {
+      const onTokensRefreshedReceived = vi.fn();
+      const tokens = { accessToken: 'access', refreshToken: 'refresh' };
+
+      createCrossTabSync({
+        channelName: 'test',
+        onLogoutReceived: vi.fn(),
+        onTokensRefreshedReceived,
+      });
+
+      mockChannel.onmessage?.({ data: { type: 'TOKENS_REFRESHED', tokens } } as MessageEvent);
+
+      expect(onTokensRefreshedReceived).toHaveBeenCalledWith(tokens);
     });
 
     it('should not call onLogoutReceived for non-LOGOUT messages', () => {
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createBrowserEnvironment, waitForOnline } from '../src/environment';
+import { createMockEnvironment } from './helpers/environment';
+
+describe('createBrowserEnvironment', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should return null when window is not available', () => {
+    expect(createBrowserEnvironment()).toBeNull();
+  });
+
+  describe('with browser globals available', () => {
+    const stubBrowser = (state: { onLine: boolean; visibilityState: string }) => {
+      const windowTarget = new EventTarget();
+      const documentTarget = new EventTarget();
+      Object.defineProperty(documentTarget, 'visibilityState', {
+        get: () => state.visibilityState,
+      });
+      vi.stubGlobal('window', windowTarget);
+      vi.stubGlobal('document', documentTarget);
+      vi.stubGlobal('navigator', {
+        get onLine() {
+          return state.onLine;
+        },
+      });
+      return { windowTarget, documentTarget };
+    };
+
+    it('should read online and visibility state', () => {
+      const state = { onLine: true, visibilityState: 'visible' };
+      stubBrowser(state);
+
+      const environment = createBrowserEnvironment();
+
+      expect(environment?.isOnline()).toBe(true);
+      expect(environment?.isVisible()).toBe(true);
+
+      state.onLine = false;
+      state.visibilityState = 'hidden';
+
+      expect(environment?.isOnline()).toBe(false);
+      expect(environment?.isVisible()).toBe(false);
+    });
+
+    it('should emit network and visibility events', () => {
+      const state = { onLine: true, visibilityState: 'visible' };
+      const { windowTarget, documentTarget } = stubBrowser(state);
+      const listener = vi.fn();
+
+      createBrowserEnvironment()?.subscribe(listener);
+
+      windowTarget.dispatchEvent(new Event('offline'));
+      windowTarget.dispatchEvent(new Event('online'));
+      state.visibilityState = 'hidden';
+      documentTarget.dispatchEvent(new Event('visibilitychange'));
+      state.visibilityState = 'visible';
+      documentTarget.dispatchEvent(new Event('visibilitychange'));
+
+      expect(listener.mock.calls).toEqual([['offline'], ['online'], ['hidden'], ['visible']]);
+    });
+
+    it('should stop emitting after unsubscribe', () => {
+      const { windowTarget } = stubBrowser({ onLine: true, visibilityState: 'visible' });
+      const listener = vi.fn();
+
+      const unsubscribe = createBrowserEnvironment()?.subscribe(listener);
+      unsubscribe?.();
+      windowTarget.dispatchEvent(new Event('offline'));
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('waitForOnline', () => {
+  it('should resolve immediately when online', async () => {
+    await expect(waitForOnline(createMockEnvironment())).resolves.toBeUndefined();
+  });
+
+  it('should resolve once the network comes back', async () => {
+    const environment = createMockEnvironment({ online: false });
+    const resolved = vi.fn();
+
+    void waitForOnline(environment).then(resolved);
+    await Promise.resolve();
+    expect(resolved).not.toHaveBeenCalled();
+
+    environment.emit('online');
+    await Promise.resolve();
+    expect(resolved).toHaveBeenCalled();
+  });
+
+  it('should reject and stop listening when the signal is aborted', async () => {
+    const environment = createMockEnvironment({ online: false });
+    const unsubscribe = vi.fn();
+    vi.spyOn(environment, 'subscribe').mockReturnValue(unsubscribe);
+    const controller = new AbortController();
+    const error = new Error('Cancelled');
+
+    const waiting = waitForOnline(environment, controller.signal);
+    controller.abort(error);
+
+    await expect(waiting).rejects.toBe(error);
+    expect(unsubscribe).toHaveBeenCalled();
+  });
+
+  it('should reject immediately for an aborted signal', async () => {
+    const error = new Error('Cancelled');
+
+    await expect(waitForOnline(createMockEnvironment(), AbortSignal.abort(error))).rejects.toBe(
+      error
+    );
+  });
+});
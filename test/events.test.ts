@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createEventEmitter } from '../src/events';
+
+interface TestEvents {
+  ping: { count: number };
+  done: void;
+}
+
+describe('createEventEmitter', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should call listeners with the payload', () => {
+    const emitter = createEventEmitter<TestEvents>();
+    const listener = vi.fn();
+
+    emitter.on('ping', listener);
+    emitter.emit('ping', { count: 1 });
+
+    expect(listener).toHaveBeenCalledWith({ count: 1 });
+  });
+
+  it('should only call listeners of the emitted event', () => {
+    const emitter = createEventEmitter<TestEvents>();
+    const ping = vi.fn();
+    const done = vi.fn();
+
+    emitter.on('ping', ping);
+    emitter.on('done', done);
+    emitter.emit('done', undefined);
+
+    expect(done).toHaveBeenCalledTimes(1);
+    expect(ping).not.toHaveBeenCalled();
+  });
+
+  it('should remove listeners with off', () => {
+    const emitter = createEventEmitter<TestEvents>();
+    const listener = vi.fn();
+
+    emitter.on('ping', listener);
+    emitter.off('ping', listener);
+    emitter.emit('ping', { count: 1 });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should remove listeners with the returned unsubscribe function', () => {
+    const emitter = createEventEmitter<TestEvents>();
+    const listener = vi.fn();
+
+    const unsubscribe = emitter.on('ping', listener);
+    unsubscribe();
+    emitter.emit('ping', { count: 1 });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should remove all listeners on clear', () => {
+    const emitter = createEventEmitter<TestEvents>();
+    const listener = vi.fn();
+
+    emitter.on('ping', listener);
+    emitter.on('done', listener);
+    emitter.clear();
+    emitter.emit('ping', { count: 1 });
+    emitter.emit('done', undefined);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should keep calling listeners when one throws', () => {
+    const rethrow = vi.spyOn(globalThis, 'queueMicrotask').mockImplementation(() => undefined);
+    const emitter = createEventEmitter<TestEvents>();
+    const listener = vi.fn();
+
+    emitter.on('ping', () => {
+      throw new Error('listener failed');
+    });
+    emitter.on('ping', listener);
+
+    expect(() => emitter.emit('ping', { count: 1 })).not.toThrow();
+    expect(listener).toHaveBeenCalled();
+    expect(rethrow).toHaveBeenCalledTimes(1);
+  });
+
+  it('should allow listeners to unsubscribe while the event is dispatched', () => {
+    const emitter = createEventEmitter<TestEvents>();
+    const second = vi.fn();
+
+    const unsubscribe = emitter.on('ping', () => unsubscribe());
+    emitter.on('ping', second);
+    emitter.emit('ping', { count: 1 });
+    emitter.emit('ping', { count: 2 });
+
+    expect(second).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,36 @@
+import type { EnvironmentEvent, EnvironmentSource } from '../../src/environment';
+
+/**
+ * Controllable environment source for tests
+ */
+export interface MockEnvironment extends EnvironmentSource {
+  emit: (event: EnvironmentEvent) => void;
+}
+
+/**
+ * Create a mock environment source
+ * Emitting an event also updates the online/visible state
+ */
+export function createMockEnvironment(
+  initial: { online?: boolean; visible?: boolean } = {}
+): MockEnvironment {
+  let online = initial.online ?? true;
+  let visible = initial.visible ?? true;
+  const listeners = new Set<(event: EnvironmentEvent) => void>();
+
+  return {
+    isOnline: () => online,
+    isVisible: () => visible,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    emit: (event) => {
+      if (event === 'online' || event === 'offline') online = event === 'online';
+      if (event === 'visible' || event === 'hidden') visible = event === 'visible';
+      [...listeners].forEach((listener) => listener(event));
+    },
+  };
+}
@@ -0,0 +1,24 @@
+import { vi } from 'vitest';
+import type { LockProvider } from '../../src/lock';
+
+/**
+ * Create an in-memory lock provider that serializes callbacks per lock name
+ * Behaves like navigator.locks for exclusive locks
+ */
+export function createMockLockProvider(): LockProvider & { request: ReturnType<typeof vi.fn> } {
+  const queues = new Map<string, Promise<unknown>>();
+
+  const request = vi.fn(<T>(name: string, callback: () => Promise<T>): Promise<T> => {
+    const previous = queues.get(name) ?? Promise.resolve();
+    const result = previous.then(callback, callback);
+    queues.set(
+      name,
+      result.catch(() => {
+        // Keep the queue going after failures
+      })
+    );
+    return result;
+  });
+
+  return { request } as LockProvider & { request: ReturnType<typeof vi.fn> };
+}
@@ -0,0 +1,54 @@
+import { vi } from 'vitest';
+
+/**
+ * Create a mock fetch that answers refresh requests with new tokens and
+ * API requests with the given statuses in order (the last one repeats)
+ * Returns real Response objects for HTTP clients that clone or stream responses
+ */
+export function createRoutedFetch(options: {
+  apiStatuses: number[];
+  refreshStatus?: number;
+  tokens?: { accessToken: string; refreshToken: string };
+}): ReturnType<typeof vi.fn> {
+  const { apiStatuses, refreshStatus = 200, tokens } = options;
+  let apiCall = 0;
+
+  const json = (body: unknown, status: number) =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+  return vi.fn((input: RequestInfo | URL) => {
+    const url = input instanceof Request ? input.url : String(input);
+
+    if (url.includes('/refresh')) {
+      const body = tokens
+        ? { access_token: tokens.accessToken, refresh_token: tokens.refreshToken }
+        : {};
+      return Promise.resolve(json(body, refreshStatus));
+    }
+
+    const status = apiStatuses[Math.min(apiCall++, apiStatuses.length - 1)];
+    return Promise.resolve(json({ status }, status));
+  });
+}
+
+/**
+ * Get the Authorization header of a call made to a routed fetch
+ */
+export function authorizationOf(mockFetch: ReturnType<typeof vi.fn>, call: number): string | null {
+  const [input, init] = mockFetch.mock.calls[call] as [RequestInfo | URL, RequestInit | undefined];
+  if (input instanceof Request) return input.headers.get('Authorization');
+  return new Headers(init?.headers).get('Authorization');
+}
+
+/**
+ * Get the indices (in `mock.calls`) of the API (non-refresh) calls made to a routed fetch
+ */
+export function apiCallIndicesOf(mockFetch: ReturnType<typeof vi.fn>): number[] {
+  return mockFetch.mock.calls
+    .map(([input], index) => ({
+      url: input instanceof Request ? input.url : String(input),
+      index,
+    }))
+    .filter(({ url }) => !url.includes('/refresh'))
+    .map(({ index }) => index);
+}
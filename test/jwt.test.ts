@@ -127,4 +127,26 @@ describe('isTokenExpiringSoon', () => {
 
     expect(isTokenExpiringSoon(token, 60)).toBe(true);
   });
+
+  it('should use expiresAt for tokens that are not JWTs', () => {
+    const now = 1700000000000;
+    Date.now = vi.fn().mockReturnValue(now);
+
+    expect(isTokenExpiringSoon('opaque-token', 60, now + 120 * 1000)).toBe(false);
+    expect(isTokenExpiringSoon('opaque-token', 60, now + 30 * 1000)).toBe(true);
+    expect(isTokenExpiringSoon('opaque-token', 60, null)).toBe(true);
+  });
+
+  it('should prefer the exp claim over expiresAt', () => {
+    const now = 1700000000000;
+    Date.now = vi.fn().mockReturnValue(now);
+
+    const token = createToken(Math.floor(now / 1000) - 1);
+
+    expect(isTokenExpiringSoon(token, 60, now + 3600 * 1000)).toBe(true);
+  });
+
+  it('should return true for a null token even with expiresAt', () => {
+    expect(isTokenExpiringSoon(null, 60, Date.now() + 3600 * 1000)).toBe(true);
+  });
 });
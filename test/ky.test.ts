@@ -0,0 +1,141 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import ky, { HTTPError } from 'ky';
+import { createKyHooks } from '../src/ky';
+import { createRetoken } from '../src/createRetoken';
+import { createMemoryStorage } from '../src/storage';
+import { setupFetchMock } from './helpers/mockFetch';
+import { apiCallIndicesOf, authorizationOf, createRoutedFetch } from './helpers/routedFetch';
+import { createSoonExpiringToken, createValidToken } from './helpers/tokens';
+import type { TokenPlacementConfig } from '../src/types';
+
+describe('createKyHooks', () => {
+  let cleanup: () => void;
+
+  afterEach(() => {
+    cleanup?.();
+  });
+
+  const createTestClient = (
+    accessToken: string,
+    mockFetch: ReturnType<typeof createRoutedFetch>,
+    tokenPlacement?: TokenPlacementConfig
+  ) => {
+    const bodies: string[] = [];
+    cleanup = setupFetchMock(
+      vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+        bodies.push(input instanceof Request ? await input.clone().text() : '');
+        return mockFetch(input, init) as Promise<Response>;
+      })
+    );
+    const storage = createMemoryStorage({
+      initialTokens: { accessToken, refreshToken: 'refresh' },
+    });
+    const retoken = createRetoken({
+      refreshEndpoint: {
+        url: 'https://api.test/auth/refresh',
+        parseResponse: (data: { access_token: string; refresh_token: string }) => ({
+          accessToken: data.access_token,
+          refreshToken: data.refresh_token,
+        }),
+      },
+      storage,
+      environment: null,
+      tokenPlacement,
+    });
+    const api = ky.create({
+      prefixUrl: 'https://api.test',
+      retry: 0,
+      hooks: createKyHooks(retoken),
+    });
+
+    return { api, storage, bodies };
+  };
+
+  it('should add the Authorization header', async () => {
+    const accessToken = createValidToken();
+    const mockFetch = createRoutedFetch({ apiStatuses: [200] });
+    const { api } = createTestClient(accessToken, mockFetch);
+
+    await api.get('users');
+
+    expect(authorizationOf(mockFetch, 0)).toBe(`Bearer ${accessToken}`);
+  });
+
+  it('should refresh proactively when the token is expiring soon', async () => {
+    const tokens = { accessToken: createValidToken(), refreshToken: 'new-refresh' };
+    const mockFetch = createRoutedFetch({ apiStatuses: [200], tokens });
+    const { api } = createTestClient(createSoonExpiringToken(), mockFetch);
+
+    await api.get('users');
+
+    const [apiCall] = apiCallIndicesOf(mockFetch);
+    expect(authorizationOf(mockFetch, apiCall)).toBe(`Bearer ${tokens.accessToken}`);
+  });
+
+  it('should refresh and retry once on 401', async () => {
+    const tokens = { accessToken: createValidToken(), refreshToken: 'new-refresh' };
+    const mockFetch = createRoutedFetch({ apiStatuses: [401, 200], tokens });
+    const { api, storage, bodies } = createTestClient(createValidToken(), mockFetch);
+
+    const data = await api.post('users', { json: { name: 'test' } }).json();
+
+    expect(data).toEqual({ status: 200 });
+    const [, retryCall] = apiCallIndicesOf(mockFetch);
+    expect(authorizationOf(mockFetch, retryCall)).toBe(`Bearer ${tokens.accessToken}`);
+    expect(JSON.parse(bodies[retryCall])).toEqual({ name: 'test' });
+    expect(await storage.getRefreshToken?.()).toBe('new-refresh');
+  });
+
+  it('should throw the HTTP error when the retry fails again', async () => {
+    const tokens = { accessToken: createValidToken(), refreshToken: 'new-refresh' };
+    const mockFetch = createRoutedFetch({ apiStatuses: [401], tokens });
+    const { api } = createTestClient(createValidToken(), mockFetch);
+
+    await expect(api.get('users')).rejects.toBeInstanceOf(HTTPError);
+    expect(apiCallIndicesOf(mockFetch)).toHaveLength(2);
+  });
+
+  it('should not retry when skipRetry is set in the context', async () => {
+    const mockFetch = createRoutedFetch({ apiStatuses: [401] });
+    const { api } = createTestClient(createValidToken(), mockFetch);
+
+    await expect(api.get('users', { context: { skipRetry: true } })).rejects.toBeInstanceOf(
+      HTTPError
+    );
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should skip proactive refresh when skipProactiveRefresh is set in the context', async () => {
+    const mockFetch = createRoutedFetch({ apiStatuses: [200] });
+    const { api } = createTestClient(createSoonExpiringToken(), mockFetch);
+
+    await api.get('users', { context: { skipProactiveRefresh: true } });
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should send the token as a query parameter and update it on retry', async () => {
+    const accessToken = createValidToken();
+    const tokens = { accessToken: createValidToken(), refreshToken: 'new-refresh' };
+    const mockFetch = createRoutedFetch({ apiStatuses: [401, 200], tokens });
+    const { api, bodies } = createTestClient(accessToken, mockFetch, { in: 'query' });
+
+    await api.post('users', { json: { name: 'test' } });
+
+    const [first, retry] = apiCallIndicesOf(mockFetch).map(
+      (call) => new URL((mockFetch.mock.calls[call][0] as Request).url)
+    );
+    expect(first.searchParams.get('access_token')).toBe(accessToken);
+    expect(retry.searchParams.get('access_token')).toBe(tokens.accessToken);
+    expect(JSON.parse(bodies[apiCallIndicesOf(mockFetch)[1]])).toEqual({ name: 'test' });
+  });
+
+  it('should not add the token with skipAuth in the context', async () => {
+    const mockFetch = createRoutedFetch({ apiStatuses: [200] });
+    const { api } = createTestClient(createValidToken(), mockFetch);
+
+    await api.get('users', { context: { skipAuth: true } });
+
+    expect(authorizationOf(mockFetch, 0)).toBeNull();
+  });
+});
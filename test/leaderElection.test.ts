@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createLeaderElector, createTabId } from '../src/leaderElection';
+
+describe('createTabId', () => {
+  it('should generate unique ids', () => {
+    expect(createTabId()).not.toBe(createTabId());
+  });
+});
+
+describe('createLeaderElector', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const createTestElector = (tabId = 'tab-b') => {
+    const postMessage = vi.fn();
+    const onLeadershipChange = vi.fn();
+    const onHeartbeat = vi.fn();
+
+    const elector = createLeaderElector({
+      tabId,
+      heartbeatInterval: 1000,
+      leaderTimeout: 3000,
+      postMessage,
+      onLeadershipChange,
+      onHeartbeat,
+    });
+
+    return { elector, postMessage, onLeadershipChange, onHeartbeat };
+  };
+
+  it('should start as a follower without a known leader', () => {
+    const { elector, postMessage } = createTestElector();
+
+    expect(elector.isLeader()).toBe(false);
+    expect(elector.getLeaderId()).toBeNull();
+    expect(postMessage).not.toHaveBeenCalled();
+
+    elector.destroy();
+  });
+
+  it('should claim leadership when no heartbeat arrives within leaderTimeout', () => {
+    const { elector, postMessage, onLeadershipChange } = createTestElector();
+
+    vi.advanceTimersByTime(3000);
+
+    expect(elector.isLeader()).toBe(true);
+    expect(elector.getLeaderId()).toBe('tab-b');
+    expect(onLeadershipChange).toHaveBeenCalledWith(true);
+    expect(postMessage).toHaveBeenCalledWith({ type: 'LEADER_HEARTBEAT', tabId: 'tab-b' });
+
+    elector.destroy();
+  });
+
+  it('should send heartbeats and run onHeartbeat while leader', () => {
+    const { elector, postMessage, onHeartbeat } = createTestElector();
+
+    vi.advanceTimersByTime(3000);
+    vi.advanceTimersByTime(2000);
+
+    // Initial heartbeat + 2 interval heartbeats
+    expect(postMessage).toHaveBeenCalledTimes(3);
+    expect(onHeartbeat).toHaveBeenCalledTimes(3);
+
+    elector.destroy();
+  });
+
+  it('should stay a follower while the leader sends heartbeats', () => {
+    const { elector, onLeadershipChange } = createTestElector();
+
+    for (let i = 0; i < 5; i++) {
+      vi.advanceTimersByTime(1000);
+      elector.handleMessage({ type: 'LEADER_HEARTBEAT', tabId: 'tab-z' });
+    }
+
+    expect(elector.isLeader()).toBe(false);
+    expect(elector.getLeaderId()).toBe('tab-z');
+    expect(onLeadershipChange).not.toHaveBeenCalled();
+
+    elector.destroy();
+  });
+
+  it('should take over when the leader stops sending heartbeats', () => {
+    const { elector } = createTestElector();
+
+    elector.handleMessage({ type: 'LEADER_HEARTBEAT', tabId: 'tab-z' });
+    vi.advanceTimersByTime(2999);
+    expect(elector.isLeader()).toBe(false);
+
+    vi.advanceTimersByTime(1);
+    expect(elector.isLeader()).toBe(true);
+
+    elector.destroy();
+  });
+
+  it('should take over immediately when the leader resigns', () => {
+    const { elector, onLeadershipChange } = createTestElector();
+
+    elector.handleMessage({ type: 'LEADER_HEARTBEAT', tabId: 'tab-z' });
+    elector.handleMessage({ type: 'LEADER_RESIGN', tabId: 'tab-z' });
+
+    expect(elector.isLeader()).toBe(true);
+    expect(onLeadershipChange).toHaveBeenCalledWith(true);
+
+    elector.destroy();
+  });
+
+  it('should step down when a tab with a lower id is also leader', () => {
+    const { elector, onLeadershipChange, onHeartbeat } = createTestElector('tab-b');
+
+    vi.advanceTimersByTime(3000);
+    elector.handleMessage({ type: 'LEADER_HEARTBEAT', tabId: 'tab-a' });
+
+    expect(elector.isLeader()).toBe(false);
+    expect(elector.getLeaderId()).toBe('tab-a');
+    expect(onLeadershipChange).toHaveBeenLastCalledWith(false);
+
+    // No more leader duties after stepping down
+    onHeartbeat.mockClear();
+    vi.advanceTimersByTime(2000);
+    expect(onHeartbeat).not.toHaveBeenCalled();
+
+    elector.destroy();
+  });
+
+  it('should keep leadership when a tab with a higher id is also leader', () => {
+    const { elector } = createTestElector('tab-b');
+
+    vi.advanceTimersByTime(3000);
+    elector.handleMessage({ type: 'LEADER_HEARTBEAT', tabId: 'tab-c' });
+
+    expect(elector.isLeader()).toBe(true);
+
+    elector.destroy();
+  });
+
+  it('should ignore its own messages', () => {
+    const { elector } = createTestElector('tab-b');
+
+    vi.advanceTimersByTime(3000);
+    elector.handleMessage({ type: 'LEADER_RESIGN', tabId: 'tab-b' });
+
+    expect(elector.isLeader()).toBe(true);
+
+    elector.destroy();
+  });
+
+  it('should resign leadership on destroy', () => {
+    const { elector, postMessage } = createTestElector();
+
+    vi.advanceTimersByTime(3000);
+    elector.destroy();
+
+    expect(elector.isLeader()).toBe(false);
+    expect(postMessage).toHaveBeenLastCalledWith({ type: 'LEADER_RESIGN', tabId: 'tab-b' });
+
+    // No further heartbeats
+    postMessage.mockClear();
+    vi.advanceTimersByTime(5000);
+    expect(postMessage).not.toHaveBeenCalled();
+  });
+
+  it('should not broadcast on destroy as a follower', () => {
+    const { elector, postMessage } = createTestElector();
+
+    elector.destroy();
+    vi.advanceTimersByTime(5000);
+
+    expect(postMessage).not.toHaveBeenCalled();
+    expect(elector.isLeader()).toBe(false);
+  });
+});
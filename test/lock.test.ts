@@ -0,0 +1,31 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createWebLocksProvider } from '../src/lock';
+
+describe('createWebLocksProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should return null when navigator is not available', () => {
+    vi.stubGlobal('navigator', undefined);
+
+    expect(createWebLocksProvider()).toBeNull();
+  });
+
+  it('should return null when the Web Locks API is not available', () => {
+    vi.stubGlobal('navigator', {});
+
+    expect(createWebLocksProvider()).toBeNull();
+  });
+
+  it('should run the callback through navigator.locks.request', async () => {
+    const request = vi.fn((_name: string, callback: () => Promise<unknown>) => callback());
+    vi.stubGlobal('navigator', { locks: { request } });
+
+    const provider = createWebLocksProvider();
+    const result = await provider?.request('my-lock', () => Promise.resolve('done'));
+
+    expect(result).toBe('done');
+    expect(request).toHaveBeenCalledWith('my-lock', expect.any(Function));
+  });
+});
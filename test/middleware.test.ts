@@ -0,0 +1,83 @@
+import { describe, it, expect, vi } from 'vitest';
+import { composeMiddleware } from '../src/middleware';
+import type { Middleware, RetokenRequest } from '../src/types';
+
+describe('composeMiddleware', () => {
+  const createRequest = (url = '/api/users'): RetokenRequest => ({
+    url,
+    init: { headers: new Headers() },
+    isRetry: false,
+  });
+
+  it('should call the handler directly without middleware', async () => {
+    const response = new Response(null, { status: 204 });
+    const handler = vi.fn().mockResolvedValue(response);
+    const request = createRequest();
+
+    const send = composeMiddleware([], handler);
+
+    await expect(send(request)).resolves.toBe(response);
+    expect(handler).toHaveBeenCalledWith(request);
+  });
+
+  it('should run middleware in order around the handler', async () => {
+    const calls: string[] = [];
+    const createLogger =
+      (name: string): Middleware =>
+      async (request, next) => {
+        calls.push(`${name}:before`);
+        const response = await next(request);
+        calls.push(`${name}:after`);
+        return response;
+      };
+    const handler = vi.fn().mockImplementation(() => {
+      calls.push('handler');
+      return Promise.resolve(new Response());
+    });
+
+    const send = composeMiddleware([createLogger('first'), createLogger('second')], handler);
+    await send(createRequest());
+
+    expect(calls).toEqual([
+      'first:before',
+      'second:before',
+      'handler',
+      'second:after',
+      'first:after',
+    ]);
+  });
+
+  it('should pass modified requests down the chain', async () => {
+    const handler = vi.fn().mockResolvedValue(new Response());
+    const rewrite: Middleware = (request, next) => next({ ...request, url: '/api/v2/users' });
+
+    const send = composeMiddleware([rewrite], handler);
+    await send(createRequest());
+
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ url: '/api/v2/users' }));
+  });
+
+  it('should return the response produced by middleware', async () => {
+    const replaced = new Response(null, { status: 202 });
+    const handler = vi.fn().mockResolvedValue(new Response());
+    const transform: Middleware = async (request, next) => {
+      await next(request);
+      return replaced;
+    };
+
+    const send = composeMiddleware([transform], handler);
+
+    await expect(send(createRequest())).resolves.toBe(replaced);
+  });
+
+  it('should allow middleware to short-circuit the chain', async () => {
+    const cached = new Response(null, { status: 200 });
+    const handler = vi.fn();
+    const cache: Middleware = () => Promise.resolve(cached);
+
+    const send = composeMiddleware([cache], handler);
+
+    await expect(send(createRequest())).resolves.toBe(cached);
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,224 @@
+import { describe, it, expect } from 'vitest';
+import { createOAuthRefreshEndpoint, createOAuthRevocationEndpoint } from '../src/oauth';
+import { createOidcDiscovery } from '../src/oidc';
+import { RefreshError } from '../src/refresher';
+import { createMockFetch, createMockResponse } from './helpers/mockFetch';
+
+describe('createOAuthRefreshEndpoint', () => {
+  const endpoint = createOAuthRefreshEndpoint({
+    url: 'https://auth.test/oauth/token',
+    clientId: 'my-app',
+  });
+
+  const paramsOf = (body: BodyInit): Record<string, string> =>
+    Object.fromEntries(body as URLSearchParams);
+
+  it('should send a form-encoded request', () => {
+    expect(endpoint.url).toBe('https://auth.test/oauth/token');
+    expect(endpoint.headers).toEqual({
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    });
+  });
+
+  it('should build a refresh_token grant body', () => {
+    expect(paramsOf(endpoint.buildBody!('refresh'))).toEqual({
+      grant_type: 'refresh_token',
+      client_id: 'my-app',
+      refresh_token: 'refresh',
+    });
+  });
+
+  it('should omit refresh_token in cookie mode', () => {
+    expect(paramsOf(endpoint.buildBody!('', 'https://api.test'))).toEqual({
+      grant_type: 'refresh_token',
+      client_id: 'my-app',
+      resource: 'https://api.test',
+    });
+  });
+
+  it('should send the scope and audience', () => {
+    const { buildBody } = createOAuthRefreshEndpoint({
+      url: 'https://auth.test/oauth/token',
+      clientId: 'my-app',
+      scope: ['openid', 'offline_access'],
+      audienceParam: 'audience',
+    });
+
+    expect(paramsOf(buildBody!('refresh', 'billing'))).toMatchObject({
+      scope: 'openid offline_access',
+      audience: 'billing',
+    });
+  });
+
+  it('should keep custom headers and options', () => {
+    const fetch = () => Promise.resolve(new Response());
+    const config = createOAuthRefreshEndpoint({
+      url: 'https://auth.test/oauth/token',
+      clientId: 'my-app',
+      credentials: 'include',
+      headers: { 'X-Client': 'web' },
+      fetch,
+    });
+
+    expect(config.credentials).toBe('include');
+    expect(config.headers).toMatchObject({ 'X-Client': 'web' });
+    expect(config.fetch).toBe(fetch);
+  });
+
+  it('should parse the token response', () => {
+    expect(
+      endpoint.parseResponse({
+        access_token: 'access',
+        token_type: 'Bearer',
+        refresh_token: 'refresh',
+        expires_in: 3600,
+        refresh_expires_in: 86400,
+      })
+    ).toEqual({
+      accessToken: 'access',
+      refreshToken: 'refresh',
+      expiresIn: 3600,
+      refreshExpiresIn: 86400,
+    });
+  });
+
+  it('should leave the refresh token empty when it was not rotated', () => {
+    expect(
+      endpoint.parseResponse({ access_token: 'access', token_type: 'Bearer' }).refreshToken
+    ).toBe('');
+  });
+
+  it('should map invalid_grant to a terminal RefreshError', async () => {
+    const response = createMockResponse({
+      status: 400,
+      body: { error: 'invalid_grant', error_description: 'Token expired' },
+    });
+
+    const error = await endpoint.parseError!(response);
+
+    expect(error).toBeInstanceOf(RefreshError);
+    expect(error).toMatchObject({
+      message: 'Refresh failed: invalid_grant: Token expired',
+      status: 400,
+      code: 'invalid_grant',
+      terminal: true,
+    });
+  });
+
+  it('should keep other error codes retryable', async () => {
+    const response = createMockResponse({
+      status: 503,
+      body: { error: 'temporarily_unavailable' },
+    });
+
+    expect(await endpoint.parseError!(response)).toMatchObject({
+      code: 'temporarily_unavailable',
+      terminal: false,
+    });
+  });
+
+  it('should return nothing for a body without an error code', async () => {
+    const response = new Response('Bad Gateway', { status: 502 });
+
+    expect(await endpoint.parseError!(response)).toBeUndefined();
+  });
+
+  describe('issuer', () => {
+    const discoveryResponse = {
+      body: {
+        issuer: 'https://auth.test',
+        token_endpoint: 'https://auth.test/oauth/token',
+      },
+    };
+
+    it('should resolve the token endpoint from the issuer with the refresh fetch', async () => {
+      const fetch = createMockFetch(discoveryResponse);
+      const { url } = createOAuthRefreshEndpoint({
+        issuer: 'https://auth.test',
+        clientId: 'my-app',
+      });
+
+      expect(typeof url === 'function' ? await url(fetch) : url).toBe(
+        'https://auth.test/oauth/token'
+      );
+      expect(fetch).toHaveBeenCalledWith(
+        'https://auth.test/.well-known/openid-configuration',
+        expect.any(Object)
+      );
+    });
+
+    it('should share a discovery', async () => {
+      const fetch = createMockFetch(discoveryResponse);
+      const refreshFetch = createMockFetch();
+      const discovery = createOidcDiscovery('https://auth.test', { fetch });
+      const { url } = createOAuthRefreshEndpoint({ issuer: discovery, clientId: 'my-app' });
+
+      await discovery.getMetadata();
+
+      expect(typeof url === 'function' ? await url(refreshFetch) : url).toBe(
+        'https://auth.test/oauth/token'
+      );
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(refreshFetch).not.toHaveBeenCalled();
+    });
+
+    it('should prefer url over issuer', () => {
+      const { url } = createOAuthRefreshEndpoint({
+        url: 'https://auth.test/token',
+        issuer: 'https://auth.test',
+        clientId: 'my-app',
+      });
+
+      expect(url).toBe('https://auth.test/token');
+    });
+
+    it('should throw without url or issuer', () => {
+      expect(() => createOAuthRefreshEndpoint({ clientId: 'my-app' })).toThrow(
+        'createOAuthRefreshEndpoint requires either url or issuer'
+      );
+    });
+  });
+});
+
+describe('createOAuthRevocationEndpoint', () => {
+  it('should send the refresh token form-encoded with a token type hint', () => {
+    const endpoint = createOAuthRevocationEndpoint({
+      url: 'https://auth.test/oauth/revoke',
+      clientId: 'my-app',
+    });
+
+    expect(endpoint.url).toBe('https://auth.test/oauth/revoke');
+    expect(endpoint.headers).toEqual({ 'Content-Type': 'application/x-www-form-urlencoded' });
+    expect(Object.fromEntries(endpoint.buildBody!('refresh') as URLSearchParams)).toEqual({
+      token: 'refresh',
+      token_type_hint: 'refresh_token',
+      client_id: 'my-app',
+    });
+  });
+
+  it('should resolve the revocation endpoint from the issuer', async () => {
+    const fetch = createMockFetch({
+      body: {
+        issuer: 'https://auth.test',
+        token_endpoint: 'https://auth.test/oauth/token',
+        revocation_endpoint: 'https://auth.test/oauth/revoke',
+      },
+    });
+    const { url } = createOAuthRevocationEndpoint({
+      issuer: 'https://auth.test',
+      clientId: 'my-app',
+    });
+
+    expect(typeof url === 'function' ? await url(fetch) : url).toBe(
+      'https://auth.test/oauth/revoke'
+    );
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw without url or issuer', () => {
+    expect(() => createOAuthRevocationEndpoint({ clientId: 'my-app' })).toThrow(
+      'createOAuthRevocationEndpoint requires either url or issuer'
+    );
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { createFetch, FetchError as OfetchError } from 'ofetch';
+import { createOfetchOptions } from '../src/ofetch';
+import { createRetoken } from '../src/createRetoken';
+import { createMemoryStorage } from '../src/storage';
+import type { RequestHookOptions } from '../src/requestHooks';
+import { setupFetchMock } from './helpers/mockFetch';
+import { apiCallIndicesOf, authorizationOf, createRoutedFetch } from './helpers/routedFetch';
+import { createSoonExpiringToken, createValidToken } from './helpers/tokens';
+import type { TokenPlacementConfig } from '../src/types';
+
+describe('createOfetchOptions', () => {
+  let cleanup: () => void;
+
+  afterEach(() => {
+    cleanup?.();
+  });
+
+  const createTestClient = (
+    accessToken: string,
+    mockFetch: ReturnType<typeof createRoutedFetch>,
+    options?: RequestHookOptions,
+    tokenPlacement?: TokenPlacementConfig
+  ) => {
+    cleanup = setupFetchMock(mockFetch);
+    const retoken = createRetoken({
+      refreshEndpoint: {
+        url: 'https://api.test/auth/refresh',
+        parseResponse: (data: { access_token: string; refresh_token: string }) => ({
+          accessToken: data.access_token,
+          refreshToken: data.refresh_token,
+        }),
+      },
+      storage: createMemoryStorage({ initialTokens: { accessToken, refreshToken: 'refresh' } }),
+      environment: null,
+      tokenPlacement,
+    });
+
+    return createFetch({ fetch: mockFetch, Headers }).create({
+      baseURL: 'https://api.test',
+      ...createOfetchOptions(retoken, options),
+    });
+  };
+
+  it('should add the Authorization header', async () => {
+    const accessToken = createValidToken();
+    const mockFetch = createRoutedFetch({ apiStatuses: [200] });
+    const api = createTestClient(accessToken, mockFetch);
+
+    await api('/users');
+
+    expect(authorizationOf(mockFetch, 0)).toBe(`Bearer ${accessToken}`);
+  });
+
+  it('should refresh proactively when the token is expiring soon', async () => {
+    const tokens = { accessToken: createValidToken(), refreshToken: 'new-refresh' };
+    const mockFetch = createRoutedFetch({ apiStatuses: [200], tokens });
+    const api = createTestClient(createSoonExpiringToken(), mockFetch);
+
+    await api('/users');
+
+    const [apiCall] = apiCallIndicesOf(mockFetch);
+    expect(authorizationOf(mockFetch, apiCall)).toBe(`Bearer ${tokens.accessToken}`);
+  });
+
+  it('should refresh and retry once on 401', async () => {
+    const tokens = { accessToken: createValidToken(), refreshToken: 'new-refresh' };
+    const mockFetch = createRoutedFetch({ apiStatuses: [401, 200], tokens });
+    const api = createTestClient(createValidToken(), mockFetch);
+
+    const data = await api<{ status: number }>('/users', {
+      method: 'POST',
+      body: { name: 'test' },
+    });
+
+    expect(data).toEqual({ status: 200 });
+    const [, retryCall] = apiCallIndicesOf(mockFetch);
+    expect(authorizationOf(mockFetch, retryCall)).toBe(`Bearer ${tokens.accessToken}`);
+  });
+
+  it('should throw when the retry fails again', async () => {
+    const tokens = { accessToken: createValidToken(), refreshToken: 'new-refresh' };
+    const mockFetch = createRoutedFetch({ apiStatuses: [401], tokens });
+    const api = createTestClient(createValidToken(), mockFetch);
+
+    await expect(api('/users')).rejects.toBeInstanceOf(OfetchError);
+    expect(apiCallIndicesOf(mockFetch)).toHaveLength(2);
+  });
+
+  it('should not retry when skipRetry is set', async () => {
+    const mockFetch = createRoutedFetch({ apiStatuses: [401] });
+    const api = createTestClient(createValidToken(), mockFetch, { skipRetry: true });
+
+    await expect(api('/users')).rejects.toBeInstanceOf(OfetchError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should send the token as a query parameter and update it on retry', async () => {
+    const accessToken = createValidToken();
+    const tokens = { accessToken: createValidToken(), refreshToken: 'new-refresh' };
+    const mockFetch = createRoutedFetch({ apiStatuses: [401, 200], tokens });
+    const api = createTestClient(accessToken, mockFetch, {}, { in: 'query' });
+
+    await api('/users', { query: { page: 2 } });
+
+    const [first, retry] = apiCallIndicesOf(mockFetch).map(
+      (call) => new URL(mockFetch.mock.calls[call][0] as string)
+    );
+    expect(first.searchParams.get('page')).toBe('2');
+    expect(first.searchParams.get('access_token')).toBe(accessToken);
+    expect(retry.searchParams.get('access_token')).toBe(tokens.accessToken);
+  });
+
+  it('should not add the token with skipAuth', async () => {
+    const mockFetch = createRoutedFetch({ apiStatuses: [401] });
+    const api = createTestClient(createValidToken(), mockFetch, { skipAuth: true });
+
+    await expect(api('/users')).rejects.toBeInstanceOf(OfetchError);
+    expect(authorizationOf(mockFetch, 0)).toBeNull();
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { createOidcDiscovery } from '../src/oidc';
+import { createMockFetch, createSequentialMockFetch } from './helpers/mockFetch';
+
+describe('createOidcDiscovery', () => {
+  const metadata = {
+    issuer: 'https://auth.test/realms/app',
+    token_endpoint: 'https://auth.test/realms/app/token',
+    revocation_endpoint: 'https://auth.test/realms/app/revoke',
+  };
+
+  it('should fetch the discovery document of the issuer', async () => {
+    const fetch = createMockFetch({ body: metadata });
+    const discovery = createOidcDiscovery('https://auth.test/realms/app/', { fetch });
+
+    expect(await discovery.getMetadata()).toEqual(metadata);
+    expect(fetch).toHaveBeenCalledWith(
+      'https://auth.test/realms/app/.well-known/openid-configuration',
+      expect.any(Object)
+    );
+  });
+
+  it('should return the token and revocation endpoints', async () => {
+    const discovery = createOidcDiscovery(metadata.issuer, {
+      fetch: createMockFetch({ body: metadata }),
+    });
+
+    expect(await discovery.getTokenEndpoint()).toBe(metadata.token_endpoint);
+    expect(await discovery.getRevocationEndpoint()).toBe(metadata.revocation_endpoint);
+  });
+
+  it('should return null without a revocation endpoint', async () => {
+    const discovery = createOidcDiscovery(metadata.issuer, {
+      fetch: createMockFetch({
+        body: { issuer: metadata.issuer, token_endpoint: metadata.token_endpoint },
+      }),
+    });
+
+    expect(await discovery.getRevocationEndpoint()).toBeNull();
+  });
+
+  it('should fetch the document only once', async () => {
+    const fetch = createMockFetch({ body: metadata });
+    const discovery = createOidcDiscovery(metadata.issuer, { fetch });
+
+    await Promise.all([discovery.getTokenEndpoint(), discovery.getRevocationEndpoint()]);
+    await discovery.getTokenEndpoint();
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fetch again after a failure', async () => {
+    const fetch = createSequentialMockFetch([{ status: 503 }, { body: metadata }]);
+    const discovery = createOidcDiscovery(metadata.issuer, { fetch });
+
+    await expect(discovery.getMetadata()).rejects.toThrow('OIDC discovery failed: 503');
+    expect(await discovery.getTokenEndpoint()).toBe(metadata.token_endpoint);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject a document without a token endpoint', async () => {
+    const discovery = createOidcDiscovery(metadata.issuer, {
+      fetch: createMockFetch({ body: { issuer: metadata.issuer } }),
+    });
+
+    await expect(discovery.getTokenEndpoint()).rejects.toThrow(
+      'OIDC discovery document has no token_endpoint'
+    );
+  });
+
+  it('should use the fetch passed to getMetadata', async () => {
+    const fetch = createMockFetch({ body: metadata });
+    const discovery = createOidcDiscovery(metadata.issuer);
+
+    expect(await discovery.getTokenEndpoint(fetch)).toBe(metadata.token_endpoint);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should prefer the fetch of the discovery options', async () => {
+    const fetch = createMockFetch({ body: metadata });
+    const otherFetch = createMockFetch({ body: metadata });
+    const discovery = createOidcDiscovery(metadata.issuer, { fetch });
+
+    await discovery.getMetadata(otherFetch);
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(otherFetch).not.toHaveBeenCalled();
+  });
+
+  it('should reject a document of another issuer', async () => {
+    const discovery = createOidcDiscovery(metadata.issuer, {
+      fetch: createMockFetch({ body: { ...metadata, issuer: 'https://evil.test' } }),
+    });
+
+    await expect(discovery.getTokenEndpoint()).rejects.toThrow(
+      'OIDC discovery issuer mismatch: expected https://auth.test/realms/app, got https://evil.test'
+    );
+  });
+});
@@ -0,0 +1,182 @@
+// @vitest-environment happy-dom
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { act, createElement, StrictMode } from 'react';
+import type { ReactNode } from 'react';
+import { createRoot } from 'react-dom/client';
+import type { Root } from 'react-dom/client';
+import { RetokenProvider, useAuthState, useAuthenticatedFetch, useRetoken } from '../src/react';
+import { createRetoken } from '../src/createRetoken';
+import { createMemoryStorage } from '../src/storage';
+import type { RetokenConfig, RetokenInstance } from '../src/types';
+import { createValidToken } from './helpers/tokens';
+import { createMockEnvironment } from './helpers/environment';
+
+vi.mock('../src/createRetoken', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../src/createRetoken')>();
+  return {
+    createRetoken: vi.fn((config: RetokenConfig) => {
+      const instance = actual.createRetoken(config);
+      return { ...instance, destroy: vi.fn(instance.destroy) };
+    }),
+  };
+});
+
+declare global {
+  var IS_REACT_ACT_ENVIRONMENT: boolean | undefined;
+}
+
+describe('react bindings', () => {
+  let container: HTMLElement;
+  let root: Root;
+
+  const createConfig = (
+    environment = createMockEnvironment()
+  ): RetokenConfig<{ access_token: string; refresh_token: string }> => ({
+    refreshEndpoint: {
+      url: '/api/refresh',
+      parseResponse: (data) => ({
+        accessToken: data.access_token,
+        refreshToken: data.refresh_token,
+      }),
+    },
+    storage: createMemoryStorage({
+      initialTokens: { accessToken: createValidToken(), refreshToken: 'refresh' },
+    }),
+    environment,
+  });
+
+  const render = async (node: ReactNode): Promise<void> => {
+    await act(async () => {
+      root.render(node);
+      await Promise.resolve();
+    });
+  };
+
+  const createdInstances = (): RetokenInstance[] => {
+    return vi.mocked(createRetoken).mock.results.map((result) => result.value as RetokenInstance);
+  };
+
+  beforeEach(() => {
+    globalThis.IS_REACT_ACT_ENVIRONMENT = true;
+    vi.mocked(createRetoken).mockClear();
+    container = document.createElement('div');
+    root = createRoot(container);
+  });
+
+  afterEach(() => {
+    act(() => root.unmount());
+  });
+
+  describe('useRetoken', () => {
+    it('should throw outside a RetokenProvider', () => {
+      const Consumer = (): ReactNode => {
+        useRetoken();
+        return null;
+      };
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      expect(() => act(() => root.render(createElement(Consumer)))).toThrow(
+        'useRetoken must be used within a RetokenProvider'
+      );
+      consoleError.mockRestore();
+    });
+
+    it('should return the provided instance without destroying it on unmount', async () => {
+      const instance = { ...createRetoken(createConfig()), destroy: vi.fn() };
+      let received: RetokenInstance | null = null;
+      const Consumer = (): ReactNode => {
+        received = useRetoken();
+        return null;
+      };
+
+      await render(createElement(RetokenProvider, { instance }, createElement(Consumer)));
+      act(() => root.unmount());
+      root = createRoot(container);
+
+      expect(received).toBe(instance);
+      expect(instance.destroy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('RetokenProvider', () => {
+    it('should create an instance from config and destroy it on unmount', async () => {
+      let received: RetokenInstance | null = null;
+      const Consumer = (): ReactNode => {
+        received = useRetoken();
+        return null;
+      };
+
+      await render(
+        createElement(RetokenProvider, { config: createConfig() }, createElement(Consumer))
+      );
+      const [instance] = createdInstances();
+      expect(received).toBe(instance);
+
+      act(() => root.unmount());
+      root = createRoot(container);
+      expect(instance.destroy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should replace the instance destroyed by StrictMode remounting', async () => {
+      let received: RetokenInstance | null = null;
+      const Consumer = (): ReactNode => {
+        received = useRetoken();
+        return null;
+      };
+
+      await render(
+        createElement(
+          StrictMode,
+          null,
+          createElement(RetokenProvider, { config: createConfig() }, createElement(Consumer))
+        )
+      );
+
+      const live = createdInstances().filter(
+        (instance) => !vi.mocked(instance.destroy).mock.calls.length
+      );
+      expect(live).toHaveLength(1);
+      expect(received).toBe(live[0]);
+    });
+  });
+
+  describe('useAuthState', () => {
+    it('should re-render when the auth state changes', async () => {
+      const environment = createMockEnvironment();
+      const states: string[] = [];
+      const Consumer = (): ReactNode => {
+        states.push(useAuthState());
+        return null;
+      };
+
+      await render(
+        createElement(
+          RetokenProvider,
+          { config: createConfig(environment) },
+          createElement(Consumer)
+        )
+      );
+      act(() => environment.emit('offline'));
+      act(() => environment.emit('online'));
+
+      expect(states.at(-3)).toBe('authenticated');
+      expect(states.at(-2)).toBe('offline');
+      expect(states.at(-1)).toBe('authenticated');
+    });
+  });
+
+  describe('useAuthenticatedFetch', () => {
+    it('should return the fetch wrapper of the instance', async () => {
+      const instance = createRetoken(createConfig());
+      let received: unknown = null;
+      const Consumer = (): ReactNode => {
+        received = useAuthenticatedFetch();
+        return null;
+      };
+
+      await render(createElement(RetokenProvider, { instance }, createElement(Consumer)));
+
+      expect(received).toBe(instance.fetch);
+    });
+  });
+});
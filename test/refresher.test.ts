@@ -1,12 +1,21 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { createRefresher, RefreshError, FetchError } from '../src/refresher';
+import {
+  createRefresher,
+  createRefreshQueue,
+  RefreshError,
+  FetchError,
+  NonReplayableBodyError,
+} from '../src/refresher';
 import {
   createMockFetch,
+  createMockResponse,
   createSequentialMockFetch,
   setupFetchMock,
   createRefreshResponse,
 } from './helpers/mockFetch';
 import { createValidToken } from './helpers/tokens';
+import { createMockLockProvider } from './helpers/lock';
+import { createMockEnvironment } from './helpers/environment';
 
 describe('RefreshError', () => {
   it('should create error with message and status', () => {
@@ -20,6 +29,18 @@ describe('RefreshError', () => {
     const error = new RefreshError('Test', 500);
     expect(error).toBeInstanceOf(Error);
   });
+
+  it('should default to no code and not terminal', () => {
+    const error = new RefreshError('Test', 500);
+    expect(error.code).toBeUndefined();
+    expect(error.terminal).toBe(false);
+  });
+
+  it('should carry the error code and terminal flag', () => {
+    const error = new RefreshError('Test', 400, { code: 'invalid_grant', terminal: true });
+    expect(error.code).toBe('invalid_grant');
+    expect(error.terminal).toBe(true);
+  });
 });
 
 describe('FetchError', () => {
@@ -38,6 +59,45 @@ describe('FetchError', () => {
   });
 });
 
+describe('NonReplayableBodyError', () => {
+  it('should create error with message, status, and response', () => {
+    const response = new Response(null, { status: 401 });
+    const error = new NonReplayableBodyError('Cannot resend', response);
+    expect(error.message).toBe('Cannot resend');
+    expect(error.status).toBe(401);
+    expect(error.response).toBe(response);
+    expect(error.name).toBe('NonReplayableBodyError');
+  });
+});
+
+describe('createRefreshQueue', () => {
+  it('should run each refresh after the previous one settled', async () => {
+    const queue = createRefreshQueue();
+    const order: string[] = [];
+    let release!: () => void;
+
+    const first = queue(async () => {
+      await new Promise<void>((resolve) => {
+        release = resolve;
+      });
+      order.push('first');
+      throw new Error('Refresh failed');
+    });
+    const second = queue(() => {
+      order.push('second');
+      return Promise.resolve('done');
+    });
+
+    await Promise.resolve();
+    expect(order).toEqual([]);
+
+    release();
+    await expect(first).rejects.toThrow('Refresh failed');
+    await expect(second).resolves.toBe('done');
+    expect(order).toEqual(['first', 'second']);
+  });
+});
+
 describe('createRefresher', () => {
   let cleanup: () => void;
 
@@ -53,12 +113,14 @@ describe('createRefresher', () => {
   const createTestRefresher = (
     mockFetch: ReturnType<typeof vi.fn>,
     options: {
-      getRefreshToken?: () => string | null;
+      getRefreshToken?: () => string | null | Promise<string | null>;
+      environment?: ReturnType<typeof createMockEnvironment>;
       retryDelays?: number[];
       skipOnClientError?: boolean;
       refreshFailureStatuses?: number[];
-      onAuthFailure?: () => void;
+      onAuthFailure?: (error: RefreshError) => void;
       onTokenRefresh?: (tokens: { accessToken: string; refreshToken: string }) => void;
+      onRetry?: (attempt: number, delay: number, error: unknown) => void;
     } = {}
   ) => {
     cleanup = setupFetchMock(mockFetch);
@@ -84,6 +146,8 @@ describe('createRefresher', () => {
       refreshFailureStatuses: options.refreshFailureStatuses ?? [401, 403],
       onAuthFailure,
       onTokenRefresh,
+      onRetry: options.onRetry,
+      environment: options.environment,
     });
 
     return { refresher, setTokens, clearTokens, onAuthFailure, onTokenRefresh };
@@ -142,6 +206,84 @@ describe('createRefresher', () => {
     });
   });
 
+  describe('async token callbacks', () => {
+    it('should await async getters and setters', async () => {
+      const mockFetch = createMockFetch(createRefreshResponse('new-access', 'new-refresh'));
+      cleanup = setupFetchMock(mockFetch);
+      const store = { accessToken: 'old-access', refreshToken: 'old-refresh' };
+      const clearTokens = vi.fn().mockResolvedValue(undefined);
+
+      const refresher = createRefresher({
+        refreshEndpoint: {
+          url: '/api/refresh',
+          parseResponse: (data: { access_token: string; refresh_token: string }) => ({
+            accessToken: data.access_token,
+            refreshToken: data.refresh_token,
+          }),
+        },
+        getRefreshToken: () => Promise.resolve(store.refreshToken),
+        setTokens: async (tokens) => {
+          await Promise.resolve();
+          store.accessToken = tokens.accessToken;
+          store.refreshToken = tokens.refreshToken;
+        },
+        clearTokens,
+        retryDelays: [],
+        skipOnClientError: true,
+        refreshFailureStatuses: [401, 403],
+      });
+
+      const result = await refresher.refresh();
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        '/api/refresh',
+        expect.objectContaining({ body: JSON.stringify({ refresh_token: 'old-refresh' }) })
+      );
+      // Tokens are stored before refresh resolves
+      expect(result).toEqual({ accessToken: 'new-access', refreshToken: 'new-refresh' });
+      expect(store).toEqual({ accessToken: 'new-access', refreshToken: 'new-refresh' });
+      expect(clearTokens).not.toHaveBeenCalled();
+    });
+
+    it('should deduplicate while the refresh token is being read', async () => {
+      const mockFetch = createMockFetch(createRefreshResponse('access', 'refresh'));
+
+      const { refresher } = createTestRefresher(mockFetch, {
+        getRefreshToken: () => Promise.resolve('token'),
+      });
+
+      await Promise.all([refresher.refresh(), refresher.refresh()]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should wait for async clearTokens before calling onAuthFailure', async () => {
+      const mockFetch = createMockFetch({ status: 401, ok: false });
+      cleanup = setupFetchMock(mockFetch);
+      const calls: string[] = [];
+
+      const refresher = createRefresher({
+        refreshEndpoint: {
+          url: '/api/refresh',
+          parseResponse: () => ({ accessToken: '', refreshToken: '' }),
+        },
+        getRefreshToken: () => Promise.resolve('token'),
+        setTokens: vi.fn(),
+        clearTokens: async () => {
+          await Promise.resolve();
+          calls.push('clearTokens');
+        },
+        retryDelays: [],
+        skipOnClientError: true,
+        refreshFailureStatuses: [401, 403],
+        onAuthFailure: () => calls.push('onAuthFailure'),
+      });
+
+      await expect(refresher.refresh()).rejects.toThrow(RefreshError);
+      expect(calls).toEqual(['clearTokens', 'onAuthFailure']);
+    });
+  });
+
   describe('request deduplication', () => {
     it('should deduplicate concurrent refresh calls', async () => {
       const mockFetch = createMockFetch(createRefreshResponse('access', 'refresh'));
@@ -286,9 +428,98 @@ describe('createRefresher', () => {
       expect(clearTokens).toHaveBeenCalled();
       expect(onAuthFailure).toHaveBeenCalled();
     });
+
+    it('should report each retry with its attempt number and delay', async () => {
+      const mockFetch = createSequentialMockFetch([
+        { status: 500, ok: false },
+        { status: 500, ok: false },
+        createRefreshResponse('access', 'refresh'),
+      ]);
+      const onRetry = vi.fn();
+
+      const { refresher } = createTestRefresher(mockFetch, {
+        getRefreshToken: () => 'token',
+        retryDelays: [100, 200],
+        onRetry,
+      });
+
+      const refreshPromise = refresher.refresh();
+      await vi.advanceTimersByTimeAsync(300);
+      await refreshPromise;
+
+      expect(onRetry).toHaveBeenCalledTimes(2);
+      expect(onRetry).toHaveBeenNthCalledWith(1, 1, 100, expect.any(RefreshError));
+      expect(onRetry).toHaveBeenNthCalledWith(2, 2, 200, expect.any(RefreshError));
+    });
+  });
+
+  describe('refresh token expiry', () => {
+    it('should fail without a network call when the refresh token has expired', async () => {
+      const mockFetch = createMockFetch(createRefreshResponse('access', 'refresh'));
+      cleanup = setupFetchMock(mockFetch);
+      const clearTokens = vi.fn();
+      const onAuthFailure = vi.fn();
+      const refresher = createRefresher({
+        refreshEndpoint: {
+          url: '/api/refresh',
+          parseResponse: (data: { access_token: string; refresh_token: string }) => ({
+            accessToken: data.access_token,
+            refreshToken: data.refresh_token,
+          }),
+        },
+        getRefreshToken: () => 'token',
+        getRefreshExpiresAt: () => Date.now() - 1000,
+        setTokens: vi.fn(),
+        clearTokens,
+        retryDelays: [100],
+        skipOnClientError: true,
+        refreshFailureStatuses: [401, 403],
+        onAuthFailure,
+      });
+
+      await expect(refresher.refresh()).rejects.toMatchObject({
+        message: 'Refresh token expired',
+        code: 'refresh_token_expired',
+        terminal: true,
+      });
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(clearTokens).toHaveBeenCalled();
+      expect(onAuthFailure).toHaveBeenCalledWith(expect.any(RefreshError));
+    });
   });
 
   describe('auth failure handling', () => {
+    it('should pass the RefreshError to onAuthFailure', async () => {
+      const mockFetch = createMockFetch({ status: 401, ok: false });
+      const onAuthFailure = vi.fn();
+
+      const { refresher } = createTestRefresher(mockFetch, {
+        getRefreshToken: () => 'token',
+        onAuthFailure,
+      });
+
+      await expect(refresher.refresh()).rejects.toThrow(RefreshError);
+      expect(onAuthFailure).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'RefreshError', status: 401 })
+      );
+    });
+
+    it('should wrap other errors in a RefreshError for onAuthFailure', async () => {
+      const mockFetch = vi.fn().mockRejectedValue(new Error('Network error'));
+      const onAuthFailure = vi.fn();
+
+      const { refresher } = createTestRefresher(mockFetch, {
+        getRefreshToken: () => 'token',
+        retryDelays: [],
+        onAuthFailure,
+      });
+
+      await expect(refresher.refresh()).rejects.toThrow('Network error');
+      expect(onAuthFailure).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'RefreshError', message: 'Network error', status: 0 })
+      );
+    });
+
     it('should clear tokens and call onAuthFailure on auth failure', async () => {
       const mockFetch = createMockFetch({ status: 403, ok: false });
       const onAuthFailure = vi.fn();
@@ -318,4 +549,522 @@ describe('createRefresher', () => {
       expect(onAuthFailure).toHaveBeenCalled();
     });
   });
+
+  describe('custom fetch', () => {
+    const refreshEndpoint = {
+      url: '/api/refresh',
+      parseResponse: (data: { access_token: string; refresh_token: string }) => ({
+        accessToken: data.access_token,
+        refreshToken: data.refresh_token,
+      }),
+    };
+
+    const createRefresherWithFetch = (
+      fetch: ReturnType<typeof vi.fn>,
+      endpointFetch?: ReturnType<typeof vi.fn>
+    ) =>
+      createRefresher({
+        refreshEndpoint: { ...refreshEndpoint, fetch: endpointFetch },
+        setTokens: vi.fn(),
+        clearTokens: vi.fn(),
+        retryDelays: [],
+        skipOnClientError: true,
+        refreshFailureStatuses: [401, 403],
+        fetch,
+      });
+
+    it('should send the refresh request with the configured fetch', async () => {
+      const globalFetch = createMockFetch();
+      cleanup = setupFetchMock(globalFetch);
+      const customFetch = createMockFetch(createRefreshResponse('new-access', 'new-refresh'));
+
+      await createRefresherWithFetch(customFetch).refresh();
+
+      expect(customFetch).toHaveBeenCalledWith('/api/refresh', expect.any(Object));
+      expect(globalFetch).not.toHaveBeenCalled();
+    });
+
+    it('should resolve the endpoint URL from a function', async () => {
+      const customFetch = createMockFetch(createRefreshResponse('new-access', 'new-refresh'));
+      const refresher = createRefresher({
+        refreshEndpoint: {
+          ...refreshEndpoint,
+          url: () => Promise.resolve('https://auth.test/token'),
+        },
+        setTokens: vi.fn(),
+        clearTokens: vi.fn(),
+        retryDelays: [],
+        skipOnClientError: true,
+        refreshFailureStatuses: [401, 403],
+        fetch: customFetch,
+      });
+
+      await refresher.refresh();
+
+      expect(customFetch).toHaveBeenCalledWith('https://auth.test/token', expect.any(Object));
+    });
+
+    it('should pass the refresh fetch to the endpoint URL function', async () => {
+      const customFetch = createMockFetch(createRefreshResponse('new-access', 'new-refresh'));
+      const url = vi.fn(() => 'https://auth.test/token');
+      const refresher = createRefresher({
+        refreshEndpoint: { ...refreshEndpoint, url },
+        setTokens: vi.fn(),
+        clearTokens: vi.fn(),
+        retryDelays: [],
+        skipOnClientError: true,
+        refreshFailureStatuses: [401, 403],
+        fetch: customFetch,
+      });
+
+      await refresher.refresh();
+
+      expect(url).toHaveBeenCalledWith(customFetch);
+    });
+
+    it('should prefer the fetch of the refresh endpoint', async () => {
+      const customFetch = createMockFetch();
+      const endpointFetch = createMockFetch(createRefreshResponse('new-access', 'new-refresh'));
+
+      await createRefresherWithFetch(customFetch, endpointFetch).refresh();
+
+      expect(endpointFetch).toHaveBeenCalledTimes(1);
+      expect(customFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('error parsing', () => {
+    const createRefresherWithParseError = (
+      parseError: (response: Response) => Promise<RefreshError | undefined>,
+      onRetry = vi.fn()
+    ) =>
+      createRefresher({
+        refreshEndpoint: {
+          url: '/api/refresh',
+          parseResponse: (data: { access_token: string }) => ({
+            accessToken: data.access_token,
+            refreshToken: '',
+          }),
+          parseError,
+        },
+        getRefreshToken: () => 'token',
+        setTokens: vi.fn(),
+        clearTokens: vi.fn(),
+        retryDelays: [100],
+        skipOnClientError: false,
+        refreshFailureStatuses: [401, 403],
+        onRetry,
+      });
+
+    it('should throw the error from parseError', async () => {
+      cleanup = setupFetchMock(createMockFetch({ status: 400, ok: false }));
+      const error = new RefreshError('Refresh failed: invalid_grant', 400, {
+        code: 'invalid_grant',
+        terminal: true,
+      });
+
+      await expect(
+        createRefresherWithParseError(() => Promise.resolve(error)).refresh()
+      ).rejects.toBe(error);
+    });
+
+    it('should not retry a terminal error', async () => {
+      const mockFetch = createMockFetch({ status: 400, ok: false });
+      cleanup = setupFetchMock(mockFetch);
+      const onRetry = vi.fn();
+      const refresher = createRefresherWithParseError(
+        () => Promise.resolve(new RefreshError('Terminal', 400, { terminal: true })),
+        onRetry
+      );
+
+      await expect(refresher.refresh()).rejects.toThrow('Terminal');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(onRetry).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the status error when parseError returns nothing', async () => {
+      cleanup = setupFetchMock(createMockFetch({ status: 502, ok: false }));
+      const refresher = createRefresherWithParseError(() => Promise.resolve(undefined));
+
+      const refreshPromise = refresher.refresh();
+      const assertion = expect(refreshPromise).rejects.toThrow('Refresh failed: 502');
+      await vi.advanceTimersByTimeAsync(100);
+      await assertion;
+    });
+
+    it('should store expiresIn as expiresAt', async () => {
+      vi.setSystemTime(1700000000000);
+      const setTokens = vi.fn();
+      cleanup = setupFetchMock(createMockFetch(createRefreshResponse('access', 'refresh')));
+      const refresher = createRefresher({
+        refreshEndpoint: {
+          url: '/api/refresh',
+          parseResponse: (data: { access_token: string; refresh_token: string }) => ({
+            accessToken: data.access_token,
+            refreshToken: data.refresh_token,
+            expiresIn: 3600,
+          }),
+        },
+        setTokens,
+        clearTokens: vi.fn(),
+        retryDelays: [],
+        skipOnClientError: true,
+        refreshFailureStatuses: [401, 403],
+      });
+
+      await refresher.refresh();
+
+      expect(setTokens).toHaveBeenCalledWith({
+        accessToken: 'access',
+        refreshToken: 'refresh',
+        expiresIn: 3600,
+        expiresAt: 1700000000000 + 3600 * 1000,
+      });
+    });
+
+    it('should store refreshExpiresIn as refreshExpiresAt', async () => {
+      vi.setSystemTime(1700000000000);
+      const setTokens = vi.fn();
+      cleanup = setupFetchMock(createMockFetch(createRefreshResponse('access', 'refresh')));
+      const refresher = createRefresher({
+        refreshEndpoint: {
+          url: '/api/refresh',
+          parseResponse: (data: { access_token: string; refresh_token: string }) => ({
+            accessToken: data.access_token,
+            refreshToken: data.refresh_token,
+            refreshExpiresIn: 86400,
+          }),
+        },
+        setTokens,
+        clearTokens: vi.fn(),
+        retryDelays: [],
+        skipOnClientError: true,
+        refreshFailureStatuses: [401, 403],
+      });
+
+      await refresher.refresh();
+
+      expect(setTokens).toHaveBeenCalledWith(
+        expect.objectContaining({ refreshExpiresAt: 1700000000000 + 86400 * 1000 })
+      );
+    });
+
+    it('should keep the refresh token expiration when the token was not rotated', async () => {
+      const setTokens = vi.fn();
+      const refreshExpiresAt = Date.now() + 86400 * 1000;
+      cleanup = setupFetchMock(createMockFetch({ body: { access_token: 'new-access' } }));
+      const refresher = createRefresher({
+        refreshEndpoint: {
+          url: '/api/refresh',
+          parseResponse: (data: { access_token: string }) => ({
+            accessToken: data.access_token,
+            refreshToken: '',
+          }),
+        },
+        getRefreshToken: () => 'token',
+        getRefreshExpiresAt: () => refreshExpiresAt,
+        setTokens,
+        clearTokens: vi.fn(),
+        retryDelays: [],
+        skipOnClientError: true,
+        refreshFailureStatuses: [401, 403],
+      });
+
+      await refresher.refresh();
+
+      expect(setTokens).toHaveBeenCalledWith(
+        expect.objectContaining({ refreshToken: 'token', refreshExpiresAt })
+      );
+    });
+
+    it('should keep the current refresh token when the response has none', async () => {
+      cleanup = setupFetchMock(createMockFetch({ body: { access_token: 'new-access' } }));
+      const refresher = createRefresherWithParseError(() => Promise.resolve(undefined));
+
+      await expect(refresher.refresh()).resolves.toEqual({
+        accessToken: 'new-access',
+        refreshToken: 'token',
+      });
+    });
+  });
+
+  describe('offline handling', () => {
+    it('should wait for the network before attempting a refresh', async () => {
+      const mockFetch = createMockFetch(createRefreshResponse('access', 'refresh'));
+      const environment = createMockEnvironment({ online: false });
+
+      const { refresher } = createTestRefresher(mockFetch, {
+        getRefreshToken: () => 'token',
+        environment,
+      });
+
+      const refreshPromise = refresher.refresh();
+      await vi.advanceTimersByTimeAsync(60000);
+      expect(mockFetch).not.toHaveBeenCalled();
+
+      environment.emit('online');
+
+      await expect(refreshPromise).resolves.toEqual({
+        accessToken: 'access',
+        refreshToken: 'refresh',
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not use up retries when the network drops during an attempt', async () => {
+      const environment = createMockEnvironment();
+      const mockFetch = vi
+        .fn()
+        .mockImplementationOnce(() => {
+          environment.emit('offline');
+          return Promise.reject(new TypeError('Failed to fetch'));
+        })
+        .mockResolvedValue(createMockResponse(createRefreshResponse('access', 'refresh')));
+
+      const { refresher } = createTestRefresher(mockFetch, {
+        getRefreshToken: () => 'token',
+        retryDelays: [],
+        environment,
+      });
+
+      const refreshPromise = refresher.refresh();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      environment.emit('online');
+
+      await expect(refreshPromise).resolves.toEqual({
+        accessToken: 'access',
+        refreshToken: 'refresh',
+      });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop waiting for the network when cancelled', async () => {
+      const mockFetch = createMockFetch(createRefreshResponse('access', 'refresh'));
+      const environment = createMockEnvironment({ online: false });
+      const unsubscribe = vi.fn();
+      const subscribe = environment.subscribe;
+      vi.spyOn(environment, 'subscribe').mockImplementation((listener) => {
+        const remove = subscribe(listener);
+        return () => {
+          unsubscribe();
+          remove();
+        };
+      });
+
+      const { refresher, clearTokens, onAuthFailure } = createTestRefresher(mockFetch, {
+        getRefreshToken: () => 'token',
+        environment,
+      });
+
+      const refreshPromise = refresher.refresh();
+      await vi.advanceTimersByTimeAsync(0);
+      const error = new RefreshError('Logged out', 0);
+      refresher.cancel(error);
+
+      await expect(refreshPromise).rejects.toBe(error);
+      expect(unsubscribe).toHaveBeenCalled();
+
+      environment.emit('online');
+      await vi.advanceTimersByTimeAsync(0);
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(clearTokens).not.toHaveBeenCalled();
+      expect(onAuthFailure).not.toHaveBeenCalled();
+    });
+
+    it('should start a new refresh after cancel', async () => {
+      const mockFetch = createMockFetch(createRefreshResponse('access', 'refresh'));
+      const environment = createMockEnvironment({ online: false });
+
+      const { refresher } = createTestRefresher(mockFetch, {
+        getRefreshToken: () => 'token',
+        environment,
+      });
+
+      const cancelled = refresher.refresh();
+      refresher.cancel(new RefreshError('Logged out', 0));
+      await expect(cancelled).rejects.toThrow('Logged out');
+
+      const refreshPromise = refresher.refresh();
+      environment.emit('online');
+
+      await expect(refreshPromise).resolves.toMatchObject({ accessToken: 'access' });
+    });
+  });
+
+  describe('refresh lock', () => {
+    const parseResponse = (data: { access_token: string; refresh_token: string }) => ({
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+    });
+
+    const createLockedRefresher = (
+      store: { accessToken: string | null; refreshToken: string | null },
+      lockProvider: ReturnType<typeof createMockLockProvider>
+    ) => {
+      return createRefresher({
+        refreshEndpoint: { url: '/api/refresh', parseResponse },
+        getAccessToken: () => store.accessToken,
+        getRefreshToken: () => store.refreshToken,
+        setTokens: (tokens) => {
+          store.accessToken = tokens.accessToken;
+          store.refreshToken = tokens.refreshToken;
+        },
+        clearTokens: () => {
+          store.accessToken = null;
+          store.refreshToken = null;
+        },
+        retryDelays: [],
+        skipOnClientError: true,
+        refreshFailureStatuses: [401, 403],
+        lock: { provider: lockProvider, name: 'test-lock' },
+      });
+    };
+
+    it('should refresh while holding the named lock', async () => {
+      const mockFetch = createMockFetch(createRefreshResponse('new-access', 'new-refresh'));
+      cleanup = setupFetchMock(mockFetch);
+      const lockProvider = createMockLockProvider();
+      const store = { accessToken: 'old-access', refreshToken: 'old-refresh' };
+
+      const result = await createLockedRefresher(store, lockProvider).refresh();
+
+      expect(lockProvider.request).toHaveBeenCalledWith('test-lock', expect.any(Function));
+      expect(result).toEqual({ accessToken: 'new-access', refreshToken: 'new-refresh' });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip the refresh request if another context rotated tokens', async () => {
+      const mockFetch = createMockFetch(createRefreshResponse('new-access', 'new-refresh'));
+      cleanup = setupFetchMock(mockFetch);
+      const lockProvider = createMockLockProvider();
+      const store = { accessToken: 'old-access', refreshToken: 'old-refresh' };
+
+      // Two contexts sharing storage and the lock
+      const refresherA = createLockedRefresher(store, lockProvider);
+      const refresherB = createLockedRefresher(store, lockProvider);
+
+      const [resultA, resultB] = await Promise.all([refresherA.refresh(), refresherB.refresh()]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(resultA).toEqual({ accessToken: 'new-access', refreshToken: 'new-refresh' });
+      expect(resultB).toEqual({ accessToken: 'new-access', refreshToken: 'new-refresh' });
+    });
+
+    it('should store the tokens before releasing the lock', async () => {
+      let issued = 0;
+      const mockFetch = vi.fn(() => {
+        issued++;
+        return Promise.resolve(
+          createMockResponse(createRefreshResponse(`access-${issued}`, `r${issued}`))
+        );
+      });
+      cleanup = setupFetchMock(mockFetch);
+      const lockProvider = createMockLockProvider();
+      const store = { accessToken: 'access-0', refreshToken: 'r0' };
+
+      // Two contexts sharing async storage and the lock
+      const createContext = () =>
+        createRefresher({
+          refreshEndpoint: { url: '/api/refresh', parseResponse },
+          getAccessToken: () => Promise.resolve(store.accessToken),
+          getRefreshToken: () => Promise.resolve(store.refreshToken),
+          setTokens: async (tokens) => {
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            store.accessToken = tokens.accessToken;
+            store.refreshToken = tokens.refreshToken;
+          },
+          clearTokens: vi.fn(),
+          retryDelays: [],
+          skipOnClientError: true,
+          refreshFailureStatuses: [401, 403],
+          lock: { provider: lockProvider, name: 'test-lock' },
+        });
+
+      const results = Promise.all([createContext().refresh(), createContext().refresh()]);
+      await vi.advanceTimersByTimeAsync(100);
+      const [resultA, resultB] = await results;
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(resultA).toEqual({ accessToken: 'access-1', refreshToken: 'r1' });
+      expect(resultB).toEqual({ accessToken: 'access-1', refreshToken: 'r1' });
+      expect(store).toEqual({ accessToken: 'access-1', refreshToken: 'r1' });
+    });
+
+    it('should fail if another context cleared tokens while waiting for the lock', async () => {
+      const mockFetch = createMockFetch(createRefreshResponse('new-access', 'new-refresh'));
+      cleanup = setupFetchMock(mockFetch);
+      const lockProvider = createMockLockProvider();
+      const store: { accessToken: string | null; refreshToken: string | null } = {
+        accessToken: 'old-access',
+        refreshToken: 'old-refresh',
+      };
+
+      // Hold the lock while the other context logs out
+      let release!: () => void;
+      void lockProvider.request(
+        'test-lock',
+        () =>
+          new Promise<void>((resolve) => {
+            release = resolve;
+          })
+      );
+
+      const refreshPromise = createLockedRefresher(store, lockProvider).refresh();
+      store.accessToken = null;
+      store.refreshToken = null;
+      await vi.advanceTimersByTimeAsync(0);
+      release();
+
+      await expect(refreshPromise).rejects.toThrow('No refresh token available');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should refresh an audience token when only the refresh token was rotated', async () => {
+      const mockFetch = createMockFetch(createRefreshResponse('orders-access', 'newer-refresh'));
+      cleanup = setupFetchMock(mockFetch);
+      const lockProvider = createMockLockProvider();
+      let audienceToken: string | null = 'orders-old';
+      let refreshToken = 'old-refresh';
+
+      const refresher = createRefresher({
+        refreshEndpoint: { url: '/api/refresh', parseResponse },
+        audience: 'orders',
+        getAccessToken: () => audienceToken,
+        getRefreshToken: () => refreshToken,
+        setTokens: (tokens) => {
+          audienceToken = tokens.accessToken;
+        },
+        clearTokens: vi.fn(),
+        retryDelays: [],
+        skipOnClientError: true,
+        refreshFailureStatuses: [401, 403],
+        lock: { provider: lockProvider, name: 'test-lock' },
+      });
+
+      // A refresh of the main access token rotates the refresh token while holding the lock
+      let release!: () => void;
+      void lockProvider.request(
+        'test-lock',
+        () =>
+          new Promise<void>((resolve) => {
+            release = resolve;
+          })
+      );
+
+      const refreshPromise = refresher.refresh();
+      await vi.advanceTimersByTimeAsync(0);
+      refreshToken = 'new-refresh';
+      release();
+
+      await expect(refreshPromise).resolves.toMatchObject({ accessToken: 'orders-access' });
+      expect(mockFetch).toHaveBeenCalledWith(
+        '/api/refresh',
+        expect.objectContaining({
+          body: JSON.stringify({ refresh_token: 'new-refresh', audience: 'orders' }),
+        })
+      );
+    });
+  });
 });
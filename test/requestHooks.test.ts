@@ -0,0 +1,88 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createRequestHooks } from '../src/requestHooks';
+
+describe('createRequestHooks', () => {
+  const createRetokenStub = (token: string | null = 'token', refreshed = true, inScope = true) => ({
+    getRequestAuth: vi.fn().mockResolvedValue({
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+      query: {},
+    }),
+    isUrlInScope: vi.fn().mockReturnValue(inScope),
+    refreshBeforeRequest: vi.fn().mockResolvedValue(undefined),
+    refreshForRetry: vi.fn().mockResolvedValue(refreshed),
+  });
+
+  describe('beforeRequest', () => {
+    it('should refresh proactively and return the Authorization header', async () => {
+      const retoken = createRetokenStub('access');
+      const hooks = createRequestHooks(retoken);
+
+      await expect(hooks.beforeRequest('/api/users')).resolves.toEqual({
+        headers: { Authorization: 'Bearer access' },
+        query: {},
+      });
+      expect(retoken.refreshBeforeRequest).toHaveBeenCalled();
+    });
+
+    it('should return no headers without an access token', async () => {
+      const hooks = createRequestHooks(createRetokenStub(null));
+
+      await expect(hooks.beforeRequest('/api/users')).resolves.toEqual({ headers: {}, query: {} });
+    });
+
+    it('should return no headers and skip refresh outside the URL scope', async () => {
+      const retoken = createRetokenStub('access', true, false);
+      const hooks = createRequestHooks(retoken);
+
+      await expect(hooks.beforeRequest('https://other.example.com')).resolves.toEqual({
+        headers: {},
+        query: {},
+      });
+      expect(retoken.isUrlInScope).toHaveBeenCalledWith('https://other.example.com');
+      expect(retoken.refreshBeforeRequest).not.toHaveBeenCalled();
+    });
+
+    it('should return no auth and skip refresh with skipAuth', async () => {
+      const retoken = createRetokenStub('access');
+      const hooks = createRequestHooks(retoken);
+
+      await expect(hooks.beforeRequest('/api/users', { skipAuth: true })).resolves.toEqual({
+        headers: {},
+        query: {},
+      });
+      expect(retoken.refreshBeforeRequest).not.toHaveBeenCalled();
+    });
+
+    it('should skip proactive refresh when requested', async () => {
+      const retoken = createRetokenStub();
+      const hooks = createRequestHooks(retoken);
+
+      await hooks.beforeRequest('/api/users', { skipProactiveRefresh: true });
+
+      expect(retoken.refreshBeforeRequest).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('afterResponse', () => {
+    it('should resolve whether the request should be retried', async () => {
+      const retoken = createRetokenStub('access', true);
+      const hooks = createRequestHooks(retoken);
+
+      await expect(hooks.afterResponse({ status: 401 }, '/api/users')).resolves.toBe(true);
+      expect(retoken.refreshForRetry).toHaveBeenCalledWith(401, '/api/users');
+    });
+
+    it.each([{ skipRetry: true }, { skipAuth: true }])(
+      'should not refresh with %o',
+      async (options) => {
+        const retoken = createRetokenStub();
+        const hooks = createRequestHooks(retoken);
+
+        await expect(hooks.afterResponse({ status: 401 }, '/api/users', options)).resolves.toBe(
+          false
+        );
+        expect(retoken.refreshForRetry).not.toHaveBeenCalled();
+      }
+    );
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createRevoker } from '../src/revocation';
+import { RevocationError } from '../src/refresher';
+import { createFailingFetch, createMockFetch } from './helpers/mockFetch';
+
+describe('createRevoker', () => {
+  it('should send the refresh token to the revocation endpoint', async () => {
+    const fetch = createMockFetch();
+    const revoker = createRevoker({ revocationEndpoint: { url: '/api/logout' }, fetch });
+
+    await revoker.revoke('refresh');
+
+    expect(fetch).toHaveBeenCalledWith('/api/logout', {
+      method: 'POST',
+      credentials: 'same-origin',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ refresh_token: 'refresh' }),
+    });
+  });
+
+  it('should use the endpoint options', async () => {
+    const fetch = createMockFetch();
+    const endpointFetch = createMockFetch();
+    const revoker = createRevoker({
+      revocationEndpoint: {
+        url: () => Promise.resolve('/api/session'),
+        method: 'DELETE',
+        credentials: 'include',
+        headers: { 'X-CSRF': 'token' },
+        buildBody: (token) => `token=${token}`,
+        fetch: endpointFetch,
+      },
+      fetch,
+    });
+
+    await revoker.revoke('refresh');
+
+    expect(endpointFetch).toHaveBeenCalledWith('/api/session', {
+      method: 'DELETE',
+      credentials: 'include',
+      headers: { 'Content-Type': 'application/json', 'X-CSRF': 'token' },
+      body: 'token=refresh',
+    });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('should pass the revocation fetch to the endpoint URL function', async () => {
+    const fetch = createMockFetch();
+    const url = vi.fn(() => '/api/logout');
+    const revoker = createRevoker({ revocationEndpoint: { url }, fetch });
+
+    await revoker.revoke('refresh');
+
+    expect(url).toHaveBeenCalledWith(fetch);
+  });
+
+  it('should throw RevocationError for an unsuccessful response', async () => {
+    const revoker = createRevoker({
+      revocationEndpoint: { url: '/api/logout' },
+      fetch: createMockFetch({ status: 400 }),
+    });
+
+    const error = await revoker.revoke('refresh').catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(RevocationError);
+    expect(error).toMatchObject({ message: 'Revocation failed: 400', status: 400 });
+  });
+
+  it('should throw RevocationError with status 0 for network errors', async () => {
+    const revoker = createRevoker({
+      revocationEndpoint: { url: '/api/logout' },
+      fetch: createFailingFetch(),
+    });
+
+    await expect(revoker.revoke('refresh')).rejects.toMatchObject({
+      name: 'RevocationError',
+      message: 'Network error',
+      status: 0,
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createRefreshScheduler } from '../src/scheduler';
+import { createTokenWithOffset, createTokenWithoutExp } from './helpers/tokens';
+
+describe('createRefreshScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const createTestScheduler = (token: string | null, expirationLeeway = 60) => {
+    const refresh = vi.fn().mockResolvedValue(undefined);
+    const scheduler = createRefreshScheduler({
+      getAccessToken: () => token,
+      expirationLeeway,
+      refresh,
+    });
+    return { scheduler, refresh };
+  };
+
+  it('should refresh expirationLeeway seconds before expiry', async () => {
+    const { scheduler, refresh } = createTestScheduler(createTokenWithOffset(300), 60);
+
+    scheduler.schedule();
+
+    await vi.advanceTimersByTimeAsync(239 * 1000);
+    expect(refresh).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refresh immediately when token is already expiring soon', async () => {
+    const { scheduler, refresh } = createTestScheduler(createTokenWithOffset(30), 60);
+
+    scheduler.schedule();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not schedule without a token', async () => {
+    const { scheduler, refresh } = createTestScheduler(null);
+
+    scheduler.schedule();
+    await vi.advanceTimersByTimeAsync(24 * 60 * 60 * 1000);
+
+    expect(refresh).not.toHaveBeenCalled();
+  });
+
+  it('should not schedule when token has no exp claim', async () => {
+    const { scheduler, refresh } = createTestScheduler(createTokenWithoutExp());
+
+    scheduler.schedule();
+    await vi.advanceTimersByTimeAsync(24 * 60 * 60 * 1000);
+
+    expect(refresh).not.toHaveBeenCalled();
+  });
+
+  it('should schedule from the stored expiration when token has no exp claim', async () => {
+    const refresh = vi.fn().mockResolvedValue(undefined);
+    const scheduler = createRefreshScheduler({
+      getAccessToken: () => 'opaque-token',
+      getExpiresAt: () => Promise.resolve(Date.now() + 300 * 1000),
+      expirationLeeway: 60,
+      refresh,
+    });
+
+    scheduler.schedule();
+
+    await vi.advanceTimersByTimeAsync(239 * 1000);
+    expect(refresh).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('should replace the previous timer when rescheduled', async () => {
+    const { scheduler, refresh } = createTestScheduler(createTokenWithOffset(120), 60);
+
+    scheduler.schedule();
+    scheduler.schedule();
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not refresh after cancel', async () => {
+    const { scheduler, refresh } = createTestScheduler(createTokenWithOffset(120), 60);
+
+    scheduler.schedule();
+    scheduler.cancel();
+    await vi.advanceTimersByTimeAsync(120 * 1000);
+
+    expect(refresh).not.toHaveBeenCalled();
+  });
+
+  it('should handle expirations beyond the maximum timer delay', async () => {
+    const fiftyDays = 50 * 24 * 60 * 60;
+    const { scheduler, refresh } = createTestScheduler(createTokenWithOffset(fiftyDays), 60);
+
+    scheduler.schedule();
+    await vi.advanceTimersByTimeAsync(2 ** 31 - 1);
+    expect(refresh).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync((fiftyDays - 60) * 1000 - (2 ** 31 - 1));
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not refresh back to back when tokens live no longer than the leeway', async () => {
+    let token = createTokenWithOffset(30);
+    const refresh = vi.fn(() => {
+      token = createTokenWithOffset(30);
+      scheduler.schedule();
+      return Promise.resolve();
+    });
+    const scheduler = createRefreshScheduler({
+      getAccessToken: () => token,
+      expirationLeeway: 60,
+      refresh,
+    });
+
+    scheduler.schedule();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(refresh).toHaveBeenCalledTimes(1);
+
+    // The new token is due when issued - refreshed halfway through its lifetime
+    await vi.advanceTimersByTimeAsync(14 * 1000);
+    expect(refresh).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(refresh).toHaveBeenCalledTimes(2);
+  });
+
+  it('should swallow refresh failures', async () => {
+    const refresh = vi.fn().mockRejectedValue(new Error('Refresh failed'));
+    const scheduler = createRefreshScheduler({
+      getAccessToken: () => createTokenWithOffset(30),
+      expirationLeeway: 60,
+      refresh,
+    });
+
+    scheduler.schedule();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createSessionExpiryWarning } from '../src/sessionExpiry';
+
+describe('createSessionExpiryWarning', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const createTestWarning = (getExpiresAt: () => number | null, leadTime = 300) => {
+    const onWarning = vi.fn();
+    const warning = createSessionExpiryWarning({
+      getExpiresAt: () => Promise.resolve(getExpiresAt()),
+      leadTime,
+      onWarning,
+    });
+    return { warning, onWarning };
+  };
+
+  it('should warn leadTime seconds before the session expires', async () => {
+    const expiresAt = Date.now() + 600 * 1000;
+    const { warning, onWarning } = createTestWarning(() => expiresAt, 300);
+
+    warning.schedule();
+
+    await vi.advanceTimersByTimeAsync(299 * 1000);
+    expect(onWarning).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(onWarning).toHaveBeenCalledWith(expiresAt);
+  });
+
+  it('should warn immediately when the session ends within leadTime', async () => {
+    const expiresAt = Date.now() + 60 * 1000;
+    const { warning, onWarning } = createTestWarning(() => expiresAt, 300);
+
+    warning.schedule();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(onWarning).toHaveBeenCalledWith(expiresAt);
+  });
+
+  it('should warn once per expiration', async () => {
+    const expiresAt = Date.now() + 60 * 1000;
+    const { warning, onWarning } = createTestWarning(() => expiresAt);
+
+    warning.schedule();
+    await vi.advanceTimersByTimeAsync(0);
+    warning.schedule();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(onWarning).toHaveBeenCalledTimes(1);
+  });
+
+  it('should warn again for a new expiration', async () => {
+    let expiresAt = Date.now() + 60 * 1000;
+    const { warning, onWarning } = createTestWarning(() => expiresAt);
+
+    warning.schedule();
+    await vi.advanceTimersByTimeAsync(0);
+    expiresAt += 30 * 1000;
+    warning.schedule();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(onWarning).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not warn without a known expiration', async () => {
+    const { warning, onWarning } = createTestWarning(() => null);
+
+    warning.schedule();
+    await vi.advanceTimersByTimeAsync(24 * 60 * 60 * 1000);
+
+    expect(onWarning).not.toHaveBeenCalled();
+  });
+
+  it('should not warn for an expired session', async () => {
+    const { warning, onWarning } = createTestWarning(() => Date.now() - 1000);
+
+    warning.schedule();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(onWarning).not.toHaveBeenCalled();
+  });
+
+  it('should not warn after cancel', async () => {
+    const { warning, onWarning } = createTestWarning(() => Date.now() + 600 * 1000);
+
+    warning.schedule();
+    await vi.advanceTimersByTimeAsync(0);
+    warning.cancel();
+    await vi.advanceTimersByTimeAsync(600 * 1000);
+
+    expect(onWarning).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,226 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createKeyValueStorage,
+  createLocalStorage,
+  createMemoryStorage,
+  createSessionStorage,
+} from '../src/storage';
+import type { KeyValueStore } from '../src/storage';
+
+/**
+ * Create a Map-backed key-value store
+ */
+function createMapStore(): KeyValueStore & { values: Map<string, string> } {
+  const values = new Map<string, string>();
+  return {
+    values,
+    getItem: (key) => values.get(key) ?? null,
+    setItem: (key, value) => {
+      values.set(key, value);
+    },
+    removeItem: (key) => {
+      values.delete(key);
+    },
+  };
+}
+
+describe('createKeyValueStorage', () => {
+  it('should store and read tokens under default keys', async () => {
+    const store = createMapStore();
+    const storage = createKeyValueStorage(store);
+
+    await storage.setTokens({ accessToken: 'access', refreshToken: 'refresh' });
+
+    expect(store.values.get('access_token')).toBe('access');
+    expect(store.values.get('refresh_token')).toBe('refresh');
+    expect(storage.getAccessToken()).toBe('access');
+    expect(storage.getRefreshToken?.()).toBe('refresh');
+  });
+
+  it('should use custom keys', async () => {
+    const store = createMapStore();
+    const storage = createKeyValueStorage(store, {
+      accessTokenKey: 'app.access',
+      refreshTokenKey: 'app.refresh',
+    });
+
+    await storage.setTokens({ accessToken: 'access', refreshToken: 'refresh' });
+
+    expect(store.values.get('app.access')).toBe('access');
+    expect(store.values.get('app.refresh')).toBe('refresh');
+  });
+
+  it('should only remove its own keys on clear', async () => {
+    const store = createMapStore();
+    store.values.set('unrelated', 'value');
+    const storage = createKeyValueStorage(store);
+
+    await storage.setTokens({ accessToken: 'access', refreshToken: 'refresh' });
+    await storage.clearTokens();
+
+    expect(storage.getAccessToken()).toBeNull();
+    expect(storage.getRefreshToken?.()).toBeNull();
+    expect(store.values.get('unrelated')).toBe('value');
+  });
+
+  it('should store and read the access token expiration', async () => {
+    const store = createMapStore();
+    const storage = createKeyValueStorage(store);
+
+    await storage.setTokens({ accessToken: 'access', refreshToken: 'refresh', expiresAt: 1000 });
+    expect(store.values.get('access_token_expires_at')).toBe('1000');
+    expect(storage.getExpiresAt?.()).toBe(1000);
+
+    await storage.setTokens({ accessToken: 'access', refreshToken: 'refresh' });
+    expect(storage.getExpiresAt?.()).toBeNull();
+  });
+
+  it('should store the refresh token expiration, also in cookie mode', async () => {
+    const store = createMapStore();
+    const storage = createKeyValueStorage(store, { storeRefreshToken: false });
+
+    await storage.setTokens({ accessToken: 'access', refreshToken: '', refreshExpiresAt: 2000 });
+    expect(store.values.get('refresh_token_expires_at')).toBe('2000');
+    expect(storage.getRefreshExpiresAt?.()).toBe(2000);
+
+    await storage.clearTokens();
+    expect(storage.getRefreshExpiresAt?.()).toBeNull();
+  });
+
+  it('should ignore a malformed expiration', () => {
+    const store = createMapStore();
+    store.values.set('access_token_expires_at', 'soon');
+    const storage = createKeyValueStorage(store);
+
+    expect(storage.getExpiresAt?.()).toBeNull();
+  });
+
+  it('should remove the expiration on clear', async () => {
+    const store = createMapStore();
+    const storage = createKeyValueStorage(store, { expiresAtKey: 'app.expires_at' });
+
+    await storage.setTokens({ accessToken: 'access', refreshToken: 'refresh', expiresAt: 1000 });
+    expect(store.values.get('app.expires_at')).toBe('1000');
+
+    await storage.clearTokens();
+    expect(store.values.has('app.expires_at')).toBe(false);
+  });
+
+  it('should omit getRefreshToken in cookie mode', async () => {
+    const store = createMapStore();
+    const storage = createKeyValueStorage(store, { storeRefreshToken: false });
+
+    await storage.setTokens({ accessToken: 'access', refreshToken: '' });
+
+    expect(storage.getRefreshToken).toBeUndefined();
+    expect(store.values.has('refresh_token')).toBe(false);
+  });
+});
+
+describe('createKeyValueStorage with an async store', () => {
+  const createAsyncStore = () => {
+    const values = new Map<string, string>();
+    return {
+      values,
+      getItem: (key: string) => Promise.resolve(values.get(key) ?? null),
+      setItem: (key: string, value: string) => {
+        values.set(key, value);
+        return Promise.resolve();
+      },
+      removeItem: (key: string) => {
+        values.delete(key);
+        return Promise.resolve();
+      },
+    };
+  };
+
+  it('should return promises from getters and setters', async () => {
+    const storage = createKeyValueStorage(createAsyncStore());
+
+    const setResult = storage.setTokens({ accessToken: 'access', refreshToken: 'refresh' });
+    expect(setResult).toBeInstanceOf(Promise);
+    await setResult;
+
+    await expect(storage.getAccessToken()).resolves.toBe('access');
+    await expect(storage.getRefreshToken?.()).resolves.toBe('refresh');
+
+    await storage.clearTokens();
+    await expect(storage.getAccessToken()).resolves.toBeNull();
+  });
+
+  it('should stay synchronous for sync stores', () => {
+    const storage = createKeyValueStorage(createMapStore());
+
+    expect(storage.setTokens({ accessToken: 'access', refreshToken: 'refresh' })).toBeUndefined();
+    expect(storage.getAccessToken()).toBe('access');
+  });
+});
+
+describe('createMemoryStorage', () => {
+  it('should start empty', () => {
+    const storage = createMemoryStorage();
+
+    expect(storage.getAccessToken()).toBeNull();
+    expect(storage.getRefreshToken?.()).toBeNull();
+  });
+
+  it('should start with initial tokens', () => {
+    const storage = createMemoryStorage({
+      initialTokens: { accessToken: 'access', refreshToken: 'refresh' },
+    });
+
+    expect(storage.getAccessToken()).toBe('access');
+    expect(storage.getRefreshToken?.()).toBe('refresh');
+  });
+
+  it('should start with an initial expiration', () => {
+    const storage = createMemoryStorage({
+      initialTokens: { accessToken: 'access', expiresAt: 1000 },
+    });
+
+    expect(storage.getExpiresAt?.()).toBe(1000);
+  });
+
+  it('should set and clear tokens', async () => {
+    const storage = createMemoryStorage();
+
+    await storage.setTokens({ accessToken: 'access', refreshToken: 'refresh' });
+    expect(storage.getAccessToken()).toBe('access');
+
+    await storage.clearTokens();
+    expect(storage.getAccessToken()).toBeNull();
+  });
+});
+
+describe('web storage adapters', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should not touch localStorage until used', () => {
+    expect(() => createLocalStorage()).not.toThrow();
+  });
+
+  it('should read and write localStorage', async () => {
+    const store = createMapStore();
+    vi.stubGlobal('localStorage', store);
+
+    const storage = createLocalStorage();
+    await storage.setTokens({ accessToken: 'access', refreshToken: 'refresh' });
+
+    expect(store.values.get('access_token')).toBe('access');
+    expect(storage.getRefreshToken?.()).toBe('refresh');
+  });
+
+  it('should read and write sessionStorage', async () => {
+    const store = createMapStore();
+    vi.stubGlobal('sessionStorage', store);
+
+    const storage = createSessionStorage({ accessTokenKey: 'session_access' });
+    await storage.setTokens({ accessToken: 'access', refreshToken: 'refresh' });
+
+    expect(store.values.get('session_access')).toBe('access');
+    await storage.clearTokens();
+    expect(store.values.size).toBe(0);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createAuthStore, createIsAuthenticatedStore } from '../src/svelte';
+import { createRetoken } from '../src/createRetoken';
+import { createMemoryStorage } from '../src/storage';
+import { createValidToken } from './helpers/tokens';
+import { createMockEnvironment } from './helpers/environment';
+
+describe('svelte stores', () => {
+  const createTestRetoken = (environment = createMockEnvironment()) =>
+    createRetoken({
+      refreshEndpoint: {
+        url: '/api/refresh',
+        parseResponse: (data: { access_token: string; refresh_token: string }) => ({
+          accessToken: data.access_token,
+          refreshToken: data.refresh_token,
+        }),
+      },
+      storage: createMemoryStorage({
+        initialTokens: { accessToken: createValidToken(), refreshToken: 'refresh' },
+      }),
+      environment,
+    });
+
+  describe('createAuthStore', () => {
+    it('should emit the current state on subscribe and on every change', async () => {
+      const environment = createMockEnvironment();
+      const retoken = createTestRetoken(environment);
+      await Promise.resolve();
+      const run = vi.fn();
+
+      createAuthStore(retoken).subscribe(run);
+      environment.emit('offline');
+      environment.emit('online');
+
+      expect(run.mock.calls).toEqual([['authenticated'], ['offline'], ['authenticated']]);
+    });
+
+    it('should stop emitting after unsubscribe', async () => {
+      const environment = createMockEnvironment();
+      const retoken = createTestRetoken(environment);
+      await Promise.resolve();
+      const run = vi.fn();
+
+      const unsubscribe = createAuthStore(retoken).subscribe(run);
+      unsubscribe();
+      environment.emit('offline');
+
+      expect(run).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('createIsAuthenticatedStore', () => {
+    it('should emit only when authentication changes', async () => {
+      const environment = createMockEnvironment();
+      const retoken = createTestRetoken(environment);
+      await Promise.resolve();
+      const run = vi.fn();
+
+      createIsAuthenticatedStore(retoken).subscribe(run);
+      environment.emit('visible');
+      await retoken.logout();
+
+      expect(run.mock.calls).toEqual([[true], [false]]);
+    });
+
+    it('should stay true while offline', async () => {
+      const environment = createMockEnvironment();
+      const retoken = createTestRetoken(environment);
+      await Promise.resolve();
+      const run = vi.fn();
+
+      createIsAuthenticatedStore(retoken).subscribe(run);
+      environment.emit('offline');
+      environment.emit('online');
+
+      expect(run.mock.calls).toEqual([[true]]);
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { setLongTimeout } from '../src/timer';
+
+describe('setLongTimeout', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should run the callback after the delay', async () => {
+    const callback = vi.fn();
+
+    setLongTimeout(callback, 1000);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(callback).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it('should run immediately for a negative delay', async () => {
+    const callback = vi.fn();
+
+    setLongTimeout(callback, -1000);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it('should split delays beyond the maximum timeout instead of firing immediately', async () => {
+    const callback = vi.fn();
+    const fiftyDays = 50 * 24 * 60 * 60 * 1000;
+
+    setLongTimeout(callback, fiftyDays);
+
+    await vi.advanceTimersByTimeAsync(2 ** 31);
+    expect(callback).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(fiftyDays - 2 ** 31 - 1);
+    expect(callback).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not run after cancel', async () => {
+    const callback = vi.fn();
+    const fiftyDays = 50 * 24 * 60 * 60 * 1000;
+
+    const cancel = setLongTimeout(callback, fiftyDays);
+    await vi.advanceTimersByTimeAsync(2 ** 31);
+    cancel();
+    await vi.advanceTimersByTimeAsync(fiftyDays);
+
+    expect(callback).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { createTokenPlacement, withQueryParams } from '../src/tokenPlacement';
+
+describe('createTokenPlacement', () => {
+  it('should send a Bearer Authorization header by default', () => {
+    const placeToken = createTokenPlacement();
+
+    expect(placeToken('abc')).toEqual({ headers: { Authorization: 'Bearer abc' }, query: {} });
+  });
+
+  it('should use a custom header name and scheme', () => {
+    expect(createTokenPlacement({ scheme: 'DPoP' })('abc').headers).toEqual({
+      Authorization: 'DPoP abc',
+    });
+    expect(createTokenPlacement({ name: 'X-Auth-Token', scheme: '' })('abc').headers).toEqual({
+      'X-Auth-Token': 'abc',
+    });
+  });
+
+  it('should send the token as a query parameter', () => {
+    expect(createTokenPlacement({ in: 'query' })('abc')).toEqual({
+      headers: {},
+      query: { access_token: 'abc' },
+    });
+    expect(createTokenPlacement({ in: 'query', name: 'token' })('abc').query).toEqual({
+      token: 'abc',
+    });
+  });
+
+  it('should place nothing without a token', () => {
+    expect(createTokenPlacement({ in: 'query' })(null)).toEqual({ headers: {}, query: {} });
+  });
+});
+
+describe('withQueryParams', () => {
+  it('should return the URL unchanged without parameters', () => {
+    expect(withQueryParams('/api/users?page=1', {})).toBe('/api/users?page=1');
+  });
+
+  it('should add parameters to relative and absolute URLs', () => {
+    expect(withQueryParams('/api/users', { token: 'abc' })).toBe('/api/users?token=abc');
+    expect(withQueryParams('users?page=1#top', { token: 'abc' })).toBe(
+      'users?page=1&token=abc#top'
+    );
+    expect(withQueryParams('https://api.example.com/users', { token: 'a b' })).toBe(
+      'https://api.example.com/users?token=a+b'
+    );
+  });
+
+  it('should replace existing values', () => {
+    expect(withQueryParams('/api/users?token=old', { token: 'new' })).toBe('/api/users?token=new');
+  });
+});
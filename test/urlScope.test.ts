@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createUrlScope } from '../src/urlScope';
+
+describe('createUrlScope', () => {
+  it('should allow every URL without lists', () => {
+    const isInScope = createUrlScope();
+
+    expect(isInScope('/api/users')).toBe(true);
+    expect(isInScope('https://third-party.example.com')).toBe(true);
+  });
+
+  it('should match origins', () => {
+    const isInScope = createUrlScope({ allow: ['https://api.example.com'] });
+
+    expect(isInScope('https://api.example.com/users')).toBe(true);
+    expect(isInScope('https://api.example.com')).toBe(true);
+    expect(isInScope('https://api.example.com.evil.test/users')).toBe(false);
+    expect(isInScope('http://api.example.com/users')).toBe(false);
+  });
+
+  it('should match path prefixes at segment boundaries', () => {
+    const isInScope = createUrlScope({ allow: ['/api', 'https://auth.example.com/v1/'] });
+
+    expect(isInScope('/api')).toBe(true);
+    expect(isInScope('/api/users?page=2')).toBe(true);
+    expect(isInScope('/apiary')).toBe(false);
+    expect(isInScope('https://auth.example.com/v1/me')).toBe(true);
+    expect(isInScope('https://auth.example.com/v2/me')).toBe(false);
+  });
+
+  it('should not treat path prefixes as matching other origins', () => {
+    const isInScope = createUrlScope({ allow: ['/api'] });
+
+    expect(isInScope('https://third-party.example.com/api/users')).toBe(false);
+  });
+
+  it('should match regular expressions against the full URL', () => {
+    const isInScope = createUrlScope({ allow: [/^https:\/\/[a-z]+\.example\.com\//] });
+
+    expect(isInScope('https://eu.example.com/users')).toBe(true);
+    expect(isInScope('https://example.org/users')).toBe(false);
+  });
+
+  it('should pass the resolved URL to predicates', () => {
+    const predicate = vi.fn((url: URL) => url.searchParams.has('auth'));
+    const isInScope = createUrlScope({ allow: [predicate] });
+
+    expect(isInScope('https://api.example.com/users?auth')).toBe(true);
+    expect(isInScope('https://api.example.com/users')).toBe(false);
+    expect(predicate.mock.calls[0][0]).toBeInstanceOf(URL);
+  });
+
+  it('should exclude denied URLs even if allowed', () => {
+    const isInScope = createUrlScope({ allow: ['/api'], deny: ['/api/public'] });
+
+    expect(isInScope('/api/users')).toBe(true);
+    expect(isInScope('/api/public/config')).toBe(false);
+  });
+
+  it('should allow everything but denied URLs without an allow-list', () => {
+    const isInScope = createUrlScope({ deny: [/\.s3\.amazonaws\.com/] });
+
+    expect(isInScope('/api/users')).toBe(true);
+    expect(isInScope('https://bucket.s3.amazonaws.com/upload')).toBe(false);
+  });
+
+  it('should exclude URLs that cannot be parsed', () => {
+    const isInScope = createUrlScope({ deny: ['/public'] });
+
+    expect(isInScope('http://[invalid')).toBe(false);
+  });
+});
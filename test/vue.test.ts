@@ -0,0 +1,88 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createApp, effectScope } from 'vue';
+import { createRetokenPlugin, useRetoken } from '../src/vue';
+import { createRetoken } from '../src/createRetoken';
+import { createMemoryStorage } from '../src/storage';
+import { createValidToken } from './helpers/tokens';
+import { createMockEnvironment } from './helpers/environment';
+
+describe('vue bindings', () => {
+  const createTestRetoken = (environment = createMockEnvironment()) =>
+    createRetoken({
+      refreshEndpoint: {
+        url: '/api/refresh',
+        parseResponse: (data: { access_token: string; refresh_token: string }) => ({
+          accessToken: data.access_token,
+          refreshToken: data.refresh_token,
+        }),
+      },
+      storage: createMemoryStorage({
+        initialTokens: { accessToken: createValidToken(), refreshToken: 'refresh' },
+      }),
+      environment,
+    });
+
+  it('should reflect auth state changes', async () => {
+    const environment = createMockEnvironment();
+    const retoken = createTestRetoken(environment);
+    await Promise.resolve();
+
+    const { state, isAuthenticated, isRefreshing } = useRetoken(retoken);
+    expect(state.value).toBe('authenticated');
+    expect(isAuthenticated.value).toBe(true);
+    expect(isRefreshing.value).toBe(false);
+
+    environment.emit('offline');
+
+    expect(state.value).toBe('offline');
+    expect(isAuthenticated.value).toBe(true);
+
+    environment.emit('online');
+    await retoken.logout();
+
+    expect(state.value).toBe('unauthenticated');
+    expect(isAuthenticated.value).toBe(false);
+  });
+
+  it('should stop updating when the effect scope is disposed', async () => {
+    const environment = createMockEnvironment();
+    const retoken = createTestRetoken(environment);
+    await Promise.resolve();
+    const scope = effectScope();
+
+    const result = scope.run(() => useRetoken(retoken));
+    scope.stop();
+    environment.emit('offline');
+
+    expect(result?.state.value).toBe('authenticated');
+  });
+
+  it('should expose the fetch helpers of the instance', () => {
+    const retoken = createTestRetoken();
+
+    const result = useRetoken(retoken);
+
+    expect(result.retoken).toBe(retoken);
+    expect(result.fetch).toBe(retoken.fetch);
+    expect(result.fetchJson).toBe(retoken.fetchJson);
+  });
+
+  it('should use the instance provided by the plugin', () => {
+    const retoken = createTestRetoken();
+    const app = createApp({ render: () => null });
+    app.use(createRetokenPlugin(retoken));
+
+    const result = app.runWithContext(() => useRetoken());
+
+    expect(result.retoken).toBe(retoken);
+  });
+
+  it('should throw without an instance', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    expect(() => useRetoken()).toThrow(
+      'useRetoken requires a retoken instance or createRetokenPlugin'
+    );
+    warn.mockRestore();
+  });
+});
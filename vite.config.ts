@@ -8,11 +8,21 @@ const __dirname = dirname(fileURLToPath(import.meta.url))
 export default defineConfig({
   build: {
     lib: {
-      entry: resolve(__dirname, 'src/index.ts'),
+      entry: {
+        'ts-retoken': resolve(__dirname, 'src/index.ts'),
+        react: resolve(__dirname, 'src/react.ts'),
+        vue: resolve(__dirname, 'src/vue.ts'),
+        svelte: resolve(__dirname, 'src/svelte.ts'),
+        axios: resolve(__dirname, 'src/axios.ts'),
+        ky: resolve(__dirname, 'src/ky.ts'),
+        ofetch: resolve(__dirname, 'src/ofetch.ts'),
+      },
       name: 'TsRetoken',
-      fileName: 'ts-retoken',
       formats: ['es'],
     },
+    rollupOptions: {
+      external: ['react', 'vue', 'axios', 'ky', 'ofetch'],
+    },
   },
   test: {
     globals: true,